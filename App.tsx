@@ -1,20 +1,97 @@
-import React, { useState, useEffect } from 'react';
-import { Database, AlertCircle, RefreshCw, LogOut, Code, ExternalLink, ShieldAlert, FileJson, Edit2, Trash2, CheckCircle2, Send, Plus, Copy, Sparkles, Terminal, X, Save, ArrowRight, Wand2, MessageSquare, ListTodo, Play } from 'lucide-react';
-import { DbConnection, Notification } from './types';
-import { checkConnection, readData, writeData, updateData, deleteData, cleanUrl } from './services/firebaseService';
+import React, { useState, useEffect, useRef } from 'react';
+import { Database, AlertCircle, RefreshCw, LogOut, Code, ExternalLink, ShieldAlert, KeyRound, Cloud, Server, Radio, Download, Filter, Upload, FileJson, Edit2, Trash2, CheckCircle2, Send, Plus, Copy, Sparkles, Terminal, X, Save, ArrowRight, Wand2, MessageSquare, ListTodo, Play, History, Undo2, ShieldCheck, Layers, ChevronDown, Columns2, Lock, LockOpen, Search, ChevronRight, Crosshair } from 'lucide-react';
+import { ConnectionProfile, DbConnection, DbCredential, Notification, WriteOperation } from './types';
+import { readData, readShallow, setCredential, getCredential, assertWritable, isTokenExpiredError, WriteConflictError, buildEmulatorUrl, getDatabaseLabel, isEmulatorUrl, resolveDatabaseUrl, subscribeToPath } from './services/firebaseService';
+import { applyServerEvent, fromShallow, hasUnloaded, isUnloaded, isBranch, setAtPath, getAtPath, compareKeys, splitPath } from './services/treeUtils';
 import { generateDataWithAI, AIResponse } from './services/geminiService';
-import DataNode from './components/DataNode';
+import TreeView, { PAGE_SIZE } from './components/TreeView';
+import QueryPanel from './components/QueryPanel';
+import WriteConfirmDialog from './components/WriteConfirmDialog';
+import { executeOperations, batchMode, normalizePath, OperationStatus, WritePreview } from './services/mutationService';
+import { HistoryEntry, listHistory, recordMutation, saveEntry, deleteEntry, markUndone, clearHistory, invertEntry, findUndoTarget, findRedoTarget } from './services/historyService';
+import HistoryPanel from './components/HistoryPanel';
+import ConflictDialog from './components/ConflictDialog';
+import RulesPanel from './components/RulesPanel';
+import ExportPanel from './components/ExportPanel';
+import ImportPanel from './components/ImportPanel';
+import ConnectionManager from './components/ConnectionManager';
+import ComparePanel from './components/ComparePanel';
+import SafetyPanel from './components/SafetyPanel';
+import SearchPanel from './components/SearchPanel';
+import { readFocusHash, writeFocusHash, getBreadcrumb } from './services/focusService';
+import { loadProfiles, findProfile, getTagStyle, loadWorkspace, saveWorkspace, ConnectionSafety, loadSafety, saveSafety, applySavedSafety, findProtectedHits } from './services/profileService';
 
 function App() {
   const [dbInfo, setDbInfo] = useState<DbConnection>({ url: '', connected: false });
   const [urlInput, setUrlInput] = useState('');
+  const [connectionMode, setConnectionMode] = useState<'cloud' | 'emulator'>('cloud');
+  const [emulatorHost, setEmulatorHost] = useState('127.0.0.1');
+  const [emulatorPort, setEmulatorPort] = useState('9000');
+  const [emulatorNamespace, setEmulatorNamespace] = useState('');
+  const [credentialType, setCredentialType] = useState<DbCredential['type']>('none');
+  const [credentialInput, setCredentialInput] = useState('');
+  const [useAuthHeader, setUseAuthHeader] = useState(false);
   const [data, setData] = useState<any>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [notifications, setNotifications] = useState<Notification[]>([]);
+
+  // Saved connections and the header switcher
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>(loadProfiles);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [showSwitcher, setShowSwitcher] = useState(false);
+
+  // Write protection for the open connection
+  const [safety, setSafety] = useState<ConnectionSafety>({ readOnly: false, protectedPaths: [] });
+  const [showSafety, setShowSafety] = useState(false);
+
+  useEffect(() => applySavedSafety(), []);
+
+  // Tree state lives here so expansion survives refreshes and re-renders
+  const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set());
+  const [nextPageKeys, setNextPageKeys] = useState<Record<string, string>>({});
+  // Full shallow level of every paged path, from the read that paged it. Later pages are sliced
+  // from here, so "Show next" never downloads the key list again.
+  const pagedLevels = useRef<Record<string, any>>({});
+
+  const clearPaging = () => {
+    pagedLevels.current = {};
+    setNextPageKeys({});
+  };
+
+  // Search box over the tree, and the result being revealed in it
+  const [showSearch, setShowSearch] = useState(false);
+  const [highlight, setHighlight] = useState<{ path: string } | null>(null);
+
+  // Subtree shown as the view root, mirrored in the URL hash. Refresh, export, import,
+  // query, search, live sync and the AI target all start from here.
+  const [focusPath, setFocusPath] = useState('');
   
+  // Query panel target (null when closed)
+  const [queryPath, setQueryPath] = useState<string | null>(null);
+  const [exportPath, setExportPath] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [comparePath, setComparePath] = useState<string | null>(null);
+
+  // Write waiting for the user to review its diff
+  const [pendingWrite, setPendingWrite] = useState<{ dbUrl: string; title: string; operations: WriteOperation[]; resolve: (preview: WritePreview | null) => void } | null>(null);
+  // Set synchronously, so a second write started before the dialog renders is still caught
+  const reviewOpen = useRef(false);
+
+  // Write that hit a 412, waiting for overwrite / merge / abandon
+  const [pendingConflict, setPendingConflict] = useState<{ operation: WriteOperation; base: any; theirs: any; etag: string; resolve: (resolved: WriteOperation | null) => void } | null>(null);
+
+  // Mutation journal for the connected database, newest first
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyBusy, setHistoryBusy] = useState(false);
+
+  // Live sync
+  const [liveSync, setLiveSync] = useState(false);
+  const [liveStatus, setLiveStatus] = useState<'connecting' | 'live' | 'error'>('connecting');
+
   // Modes
-  const [viewMode, setViewMode] = useState<'tree' | 'raw'>('tree');
+  const [viewMode, setViewMode] = useState<'tree' | 'raw' | 'rules'>('tree');
   const [rawJsonInput, setRawJsonInput] = useState('');
   
   // AI Modal
@@ -25,6 +102,10 @@ function App() {
   
   // New AI State
   const [aiResult, setAiResult] = useState<AIResponse | null>(null);
+  const [aiStatuses, setAiStatuses] = useState<OperationStatus[]>([]);
+
+  // A new plan (or none) starts with no execution status
+  useEffect(() => setAiStatuses([]), [aiResult]);
 
   // Function to add a toast notification
   const notify = (msg: string, type: 'success' | 'error' | 'info' = 'info') => {
@@ -35,19 +116,118 @@ function App() {
     }, 4000);
   };
 
+  const buildCredential = (): DbCredential => {
+    const value = credentialInput.trim();
+    if (credentialType === 'none' || !value) return { type: 'none' };
+    if (credentialType === 'idToken') return { type: 'idToken', token: value };
+    if (credentialType === 'accessToken') return { type: 'accessToken', token: value, useHeader: useAuthHeader };
+    return { type: 'secret', secret: value };
+  };
+
+  // Keep the tree in step with the server while live sync is on
+  useEffect(() => {
+    if (!liveSync || !dbInfo.connected) return;
+
+    setLiveStatus('connecting');
+    const unsubscribe = subscribeToPath(dbInfo.url, focusPath, {
+      onOpen: () => {
+        setLiveStatus('live');
+        clearPaging();
+      },
+      onEvent: (event) => setData((prev: any) => applyServerEvent(prev, focusPath, event)),
+      onError: (err) => {
+        setLiveStatus('error');
+        setLiveSync(false);
+        if (isTokenExpiredError(err)) handleTokenExpired(err.message);
+        else notify(err.message, "error");
+      },
+    });
+    return unsubscribe;
+  }, [liveSync, dbInfo.connected, dbInfo.url, focusPath]);
+
+  const refreshHistory = async (url: string = dbInfo.url) => {
+    try {
+      setHistory(await listHistory(url));
+    } catch (err: any) {
+      notify(err.message, "error");
+    }
+  };
+
+  useEffect(() => {
+    if (dbInfo.connected) refreshHistory(dbInfo.url);
+  }, [dbInfo.connected, dbInfo.url]);
+
+  // Remember expansion and view per database, restored the next time it is opened
+  useEffect(() => {
+    if (dbInfo.connected) saveWorkspace(dbInfo.url, { expandedPaths: [...expandedPaths], viewMode });
+  }, [dbInfo.connected, dbInfo.url, expandedPaths, viewMode]);
+
+  const activeProfile = dbInfo.connected ? findProfile(profiles, dbInfo.url) : undefined;
+
+  // Prod connections make every write, import and rules deploy wait for the profile name to be typed
+  const getConfirmPhrase = (url: string) => {
+    const profile = findProfile(profiles, url);
+    return profile?.tag === 'prod' ? (profile.name.trim() || getDatabaseLabel(url)) : undefined;
+  };
+  const confirmPhrase = dbInfo.connected ? getConfirmPhrase(dbInfo.url) : undefined;
+
+  // Ctrl+Z / Ctrl+Shift+Z walk the journal. Text fields keep their own undo.
+  useEffect(() => {
+    if (!dbInfo.connected) return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      if ((e.target as HTMLElement | null)?.closest?.('input, textarea, select, [contenteditable="true"]')) return;
+      if (pendingWrite || pendingConflict || historyBusy) return;
+
+      const entry = e.shiftKey ? findRedoTarget(history) : findUndoTarget(history);
+      if (!entry) return;
+      e.preventDefault();
+      if (e.shiftKey) handleReapply(entry);
+      else handleRevert(entry);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [dbInfo.connected, dbInfo.url, history, pendingWrite, pendingConflict, historyBusy]);
+
+  // Checks the database answers, then swaps it in with the workspace it had last time.
+  // Throws without touching the current connection, so a failed switch stays where it was.
+  const openConnection = async (input: string, credential: DbCredential) => {
+    // Bare IDs may live on a legacy or a regional host, probe until one answers
+    const resolved = await resolveDatabaseUrl(input, credential);
+    const targetUrl = resolved.url;
+    if (resolved.tried.length > 1) notify(`Found database at ${targetUrl.replace('https://', '')}`, "info");
+
+    const workspace = loadWorkspace(targetUrl);
+    // A bookmarked hash applies to the first connection; switching databases starts at the root
+    const focus = dbInfo.connected ? '' : readFocusHash();
+    writeFocusHash(focus);
+    setFocusPath(focus);
+    setSafety(loadSafety(targetUrl));
+    setLiveSync(false);
+    setData(null);
+    setShowHistory(false);
+    setQueryPath(null);
+    setExportPath(null);
+    setComparePath(null);
+    setHighlight(null);
+    setRawJsonInput('');
+    setExpandedPaths(new Set(workspace?.expandedPaths || []));
+    setViewMode(workspace?.viewMode || 'tree');
+    setDbInfo({ url: targetUrl, connected: true, credential });
+    notify("Connected successfully!", "success");
+    // A restored raw view asks before downloading everything
+    fetchRootData(targetUrl, false, focus);
+  };
+
   const handleConnect = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!urlInput) return;
+    if (connectionMode === 'cloud' ? !urlInput : !emulatorNamespace.trim()) return;
 
     setLoading(true);
     setError(null);
-    const targetUrl = cleanUrl(urlInput);
-
     try {
-      await checkConnection(targetUrl);
-      setDbInfo({ url: targetUrl, connected: true });
-      notify("Connected successfully!", "success");
-      fetchRootData(targetUrl);
+      await openConnection(connectionMode === 'cloud' ? urlInput : buildEmulatorUrl(emulatorHost, emulatorPort, emulatorNamespace), buildCredential());
     } catch (err: any) {
       setError(err.message || "Failed to connect.");
       notify("Connection failed", "error");
@@ -56,33 +236,400 @@ function App() {
     }
   };
 
-  const fetchRootData = async (url: string = dbInfo.url) => {
+  // Puts a saved profile into the connect form, for when a token has to be typed in
+  const fillConnectForm = (profile: ConnectionProfile) => {
+    if (isEmulatorUrl(profile.url)) {
+      const parsed = new URL(profile.url);
+      setConnectionMode('emulator');
+      setEmulatorHost(parsed.hostname);
+      setEmulatorPort(parsed.port || '9000');
+      setEmulatorNamespace(parsed.searchParams.get('ns') || '');
+    } else {
+      setConnectionMode('cloud');
+      setUrlInput(profile.url);
+    }
+    setCredentialType(profile.credentialType);
+    setUseAuthHeader(!!profile.useAuthHeader);
+    setCredentialInput('');
+  };
+
+  // Opens a saved profile. Credentials entered earlier this session are reused; a profile
+  // that needs one we don't have goes back to the connect form with everything else filled in.
+  const handleSwitchProfile = async (profile: ConnectionProfile) => {
+    setShowSwitcher(false);
+    const credential = getCredential(profile.url) || { type: 'none' };
+    if (credential.type !== profile.credentialType) {
+      if (dbInfo.connected) closeConnection();
+      fillConnectForm(profile);
+      notify(`Enter the credential for ${profile.name}`, "info");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      await openConnection(profile.url, credential);
+    } catch (err: any) {
+      if (dbInfo.connected) notify(err.message || "Failed to connect.", "error");
+      else setError(err.message || "Failed to connect.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Loads the top level of the view root, plus a fresh shallow copy of every level open under it.
+  // The open levels go back in place, and paged levels keep as many keys as were showing, so a
+  // refresh (one runs after every write) leaves the tree its height and the scroll position holds.
+  // Deeper levels are fetched as nodes are expanded.
+  const fetchRootData = async (url: string = dbInfo.url, full: boolean = viewMode === 'raw', path: string = focusPath) => {
+    if (full) return loadFullDatabase(url, path);
+
     setLoading(true);
     try {
-      const result = await readData(url);
-      setData(result);
-      if (viewMode === 'raw') {
-        setRawJsonInput(JSON.stringify(result, null, 2));
+      const open = url === dbInfo.url ? openLevels(path) : [];
+      const paths = [path, ...open];
+      const shown = paths.map(levelPath => {
+        const previous = getAtPath(data, levelPath);
+        return nextPageKeys[levelPath] !== undefined && isBranch(previous) ? Math.max(PAGE_SIZE, Object.keys(previous).length) : PAGE_SIZE;
+      });
+      const [root, ...levels] = await Promise.all(paths.map(levelPath => readShallow(url, levelPath)));
+
+      clearPaging();
+      let page = trimToPage(path, fromShallow(root), shown[0]);
+      open.forEach((openPath, i) => {
+        // Skipped when the node is gone, is a leaf now, or sits under a level that wasn't put back
+        const relative = openPath.slice(path ? path.length + 1 : 0);
+        if (!isUnloaded(getAtPath(page, relative))) return;
+        page = setAtPath(page, relative, trimToPage(openPath, fromShallow(levels[i]), shown[i + 1]));
+      });
+      setData((prev: any) => setAtPath(prev, path, page));
+    } catch (err: any) {
+      console.error(err);
+      if (isTokenExpiredError(err)) {
+        handleTokenExpired(err.message);
+        return;
       }
+      notify(err.message || "Failed to fetch data", "error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Explicit full download, for the raw view and anything else that needs every level
+  const loadFullDatabase = async (url: string = dbInfo.url, path: string = focusPath) => {
+    setLoading(true);
+    try {
+      const result = await readData(url, path);
+      clearPaging();
+      setData((prev: any) => setAtPath(prev, path, result));
+      setRawJsonInput(JSON.stringify(result, null, 2));
     } catch (err: any) {
       console.error(err);
+      if (isTokenExpiredError(err)) {
+        handleTokenExpired(err.message);
+        return;
+      }
       notify(err.message || "Failed to fetch data", "error");
     } finally {
       setLoading(false);
     }
   };
 
-  const handleDisconnect = () => {
+  // Keeps the first `size` keys of a large level and remembers the level and the key the next page starts at
+  const trimToPage = (path: string, level: any, size: number = PAGE_SIZE) => {
+    const keys = isBranch(level) ? Object.keys(level).sort(compareKeys) : [];
+    if (keys.length > size) pagedLevels.current[path] = level;
+    else delete pagedLevels.current[path];
+    setNextPageKeys(prev => {
+      const next = { ...prev };
+      if (keys.length > size) next[path] = keys[size];
+      else delete next[path];
+      return next;
+    });
+    if (keys.length <= size) return level;
+
+    const page: Record<string, any> = {};
+    for (const key of keys.slice(0, size)) page[key] = level[key];
+    return page;
+  };
+
+  // Expanded levels below `path` that are loaded and on screen (every ancestor up to `path` open), shallowest first
+  const openLevels = (path: string): string[] => {
+    const depth = splitPath(path).length;
+    return [...expandedPaths]
+      .filter(openPath => {
+        const keys = splitPath(openPath);
+        if (keys.length <= depth || keys.slice(0, depth).join('/') !== splitPath(path).join('/')) return false;
+        for (let i = depth + 1; i < keys.length; i++) {
+          if (!expandedPaths.has(keys.slice(0, i).join('/'))) return false;
+        }
+        const value = getAtPath(data, openPath);
+        return isBranch(value) && !isUnloaded(value);
+      })
+      .sort((a, b) => splitPath(a).length - splitPath(b).length);
+  };
+
+  const loadChildren = async (path: string) => {
+    const level = await readShallow(dbInfo.url, path);
+    const page = trimToPage(path, fromShallow(level));
+    setData((prev: any) => setAtPath(prev, path, page));
+  };
+
+  // Adds the next page of a large level from the shallow level kept when it was paged, so
+  // nested children stay placeholders and nothing is downloaded again
+  const loadMore = async (path: string) => {
+    const startKey = nextPageKeys[path];
+    const shallow = pagedLevels.current[path];
+    if (startKey === undefined || shallow === undefined) return;
+
+    const keys = isBranch(shallow) ? Object.keys(shallow).sort(compareKeys) : [];
+    const start = keys.findIndex(key => compareKeys(key, startKey) >= 0);
+    const pageKeys = start === -1 ? [] : keys.slice(start, start + PAGE_SIZE);
+    const nextKey = start === -1 ? undefined : keys[start + PAGE_SIZE];
+
+    setData((prev: any) => {
+      const level = { ...getAtPath(prev, path) };
+      for (const key of pageKeys) level[key] = shallow[key];
+      return setAtPath(prev, path, level);
+    });
+    setNextPageKeys(prev => {
+      const next = { ...prev };
+      if (nextKey !== undefined) next[path] = nextKey;
+      else delete next[path];
+      return next;
+    });
+  };
+
+  // Opens the tree down to `path` and marks it. Ancestors that are placeholders get loaded, and
+  // a key that sits past a loaded page is pulled in on its own so its row exists to scroll to.
+  const revealPath = async (path: string) => {
+    const keys = splitPath(path);
+    let tree = data;
+    setViewMode('tree');
+    try {
+      for (let i = 0; i < keys.length; i++) {
+        const parent = keys.slice(0, i).join('/');
+        const childPath = keys.slice(0, i + 1).join('/');
+        let level = getAtPath(tree, parent);
+        if (isUnloaded(level)) {
+          level = trimToPage(parent, fromShallow(await readShallow(dbInfo.url, parent)));
+          const loaded = level;
+          tree = setAtPath(tree, parent, loaded);
+          setData((prev: any) => setAtPath(prev, parent, loaded));
+        }
+        if (level === null || typeof level !== 'object' || !(keys[i] in level)) {
+          const child = fromShallow(await readShallow(dbInfo.url, childPath));
+          if (child === null) throw new Error(`/${path} no longer exists.`);
+          const value = typeof child === 'object' ? trimToPage(childPath, child) : child;
+          tree = setAtPath(tree, childPath, value);
+          setData((prev: any) => setAtPath(prev, childPath, value));
+        }
+      }
+    } catch (err: any) {
+      notify(err.message || "Could not open that path", "error");
+      return;
+    }
+    setExpandedPaths(prev => {
+      const next = new Set(prev);
+      for (let i = 1; i < keys.length; i++) next.add(keys.slice(0, i).join('/'));
+      return next;
+    });
+    setHighlight({ path: keys.join('/') });
+  };
+
+  // Makes `path` the view root. The level is always re-read, since data above or beside
+  // the old root may only be partly loaded.
+  const applyFocus = (path: string) => {
+    setFocusPath(path);
+    setHighlight(null);
+    setRawJsonInput('');
+    fetchRootData(dbInfo.url, false, path);
+  };
+
+  const focusOn = (path: string) => {
+    const clean = splitPath(path).join('/');
+    writeFocusHash(clean);
+    applyFocus(clean);
+  };
+
+  // Back / forward and hand-edited hashes
+  useEffect(() => {
+    if (!dbInfo.connected) return;
+    const onHashChange = () => {
+      const path = readFocusHash();
+      if (path !== focusPath) applyFocus(path);
+    };
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, [dbInfo.connected, dbInfo.url, focusPath, viewMode]);
+
+  const viewData = focusPath ? getAtPath(data, focusPath) : data;
+
+  const handleToggle = (path: string, expanded: boolean) => {
+    setExpandedPaths(prev => {
+      const next = new Set(prev);
+      if (expanded) next.add(path);
+      else next.delete(path);
+      return next;
+    });
+  };
+
+  // Send the user back to the connect form with the URL kept, so only the token needs replacing
+  const handleTokenExpired = (message: string) => {
+    setLiveSync(false);
+    setCredential(dbInfo.url);
     setDbInfo({ url: '', connected: false });
     setData(null);
-    setUrlInput('');
+    setCredentialInput('');
+    setError(message);
+    notify("Session expired", "error");
+  };
+
+  const updateSafety = (next: ConnectionSafety) => {
+    setSafety(next);
+    saveSafety(dbInfo.url, next);
+  };
+
+  // Back to the connect screen. Credentials stay registered so switching back needs no token.
+  const closeConnection = () => {
+    setShowSwitcher(false);
+    setShowSafety(false);
+    setShowSearch(false);
+    setHighlight(null);
+    setFocusPath('');
+    writeFocusHash('');
+    setLiveSync(false);
+    setDbInfo({ url: '', connected: false });
+    setData(null);
+    setExpandedPaths(new Set());
+    clearPaging();
+    setHistory([]);
+    setShowHistory(false);
     setError(null);
     setViewMode('tree');
   };
 
+  const handleDisconnect = () => {
+    setCredential(dbInfo.url);
+    closeConnection();
+    setUrlInput('');
+    setCredentialInput('');
+  };
+
+  // Every write goes through here: show the diff, wait for confirmation, journal the
+  // pre-images, then run it. Resolves false if the user cancels; rejects if the write fails.
+  // Batches apply atomically when they fit one multi-path PATCH and otherwise roll back on
+  // failure, so either way a failed write leaves nothing to undo and its journal entry goes.
+  // Undo and redo pass `journal: false` since they move an existing entry instead; compare
+  // passes `dbUrl` to write to another saved connection.
+  const handleWrite = async (
+    operations: WriteOperation[],
+    title: string,
+    { journal = true, onStatus, dbUrl = dbInfo.url }: { journal?: boolean; onStatus?: (index: number, status: OperationStatus) => void; dbUrl?: string } = {}
+  ): Promise<boolean> => {
+    // firebaseService rejects the write anyway; checking first skips a review that can't go through
+    assertWritable(dbUrl);
+    // Replacing the pending review would leave its caller waiting forever, so turn this one away
+    if (reviewOpen.current) throw new Error("⚠️ Another write is waiting for review. Confirm or cancel it first.");
+    reviewOpen.current = true;
+    const preview = await new Promise<WritePreview | null>(resolve => setPendingWrite({ dbUrl, title, operations, resolve }));
+    reviewOpen.current = false;
+    setPendingWrite(null);
+    if (!preview) return false;
+
+    let entry: HistoryEntry | null = null;
+    if (journal) {
+      try {
+        entry = await recordMutation(dbUrl, title, operations, preview.preImages);
+        await refreshHistory();
+      } catch (err: any) {
+        notify(`${err.message} The write will not be undoable.`, "error");
+      }
+    }
+
+    // A 412 pauses the batch until the user overwrites, merges or abandons
+    const onConflict = async (operation: WriteOperation, conflict: WriteConflictError) => {
+      const path = normalizePath(operation.path);
+      const base = operation.base !== undefined ? operation.base : preview.preImages[path];
+      const resolved = await new Promise<WriteOperation | null>(resolve => setPendingConflict({ operation, base, theirs: conflict.current, etag: conflict.etag, resolve }));
+      setPendingConflict(null);
+
+      // Undo should restore what the other writer left, not what the preview saw
+      if (resolved && entry) {
+        entry = await saveEntry({ ...entry, preImages: { ...entry.preImages, [path]: conflict.current } }).catch(() => entry);
+      }
+      return resolved;
+    };
+
+    // Journal a push as a SET of the key it got, so undo deletes it and redo recreates the same child
+    const onPushed = async (index: number, path: string) => {
+      if (!entry) return;
+      const journaled: HistoryEntry = entry;
+      const recorded = journaled.operations.map((operation, i) => i === index ? { type: 'SET' as const, path, data: operation.data } : operation);
+      entry = await saveEntry({ ...journaled, operations: recorded, preImages: { ...journaled.preImages, [path]: null } }).catch(() => journaled);
+      await refreshHistory();
+    };
+
+    const discardEntry = async () => {
+      if (!entry) return;
+      await deleteEntry(entry).catch(() => undefined);
+      await refreshHistory();
+    };
+
+    try {
+      if (await executeOperations(dbUrl, operations, preview, { onStatus, onConflict, onPushed })) return true;
+    } catch (err: any) {
+      if (!err.message?.startsWith('❌ Rollback failed')) await discardEntry();
+      throw err;
+    }
+    await discardEntry();
+    notify(operations.length > 1 ? "Write abandoned. Earlier actions were rolled back." : "Write abandoned", "info");
+    return false;
+  };
+
+  // Puts every path touched by an entry back to its recorded pre-image
+  const handleRevert = async (entry: HistoryEntry) => {
+    setHistoryBusy(true);
+    try {
+      if (!await handleWrite(invertEntry(entry), `Undo: ${entry.title}`, { journal: false })) return;
+      await markUndone(entry, true);
+      await refreshHistory();
+      fetchRootData();
+      notify(`Undid "${entry.title}"`, "success");
+    } catch (err: any) {
+      notify(err.message || "Undo failed", "error");
+    } finally {
+      setHistoryBusy(false);
+    }
+  };
+
+  const handleReapply = async (entry: HistoryEntry) => {
+    setHistoryBusy(true);
+    try {
+      if (!await handleWrite(entry.operations, `Redo: ${entry.title}`, { journal: false })) return;
+      await markUndone(entry, false);
+      await refreshHistory();
+      fetchRootData();
+      notify(`Redid "${entry.title}"`, "success");
+    } catch (err: any) {
+      notify(err.message || "Redo failed", "error");
+    } finally {
+      setHistoryBusy(false);
+    }
+  };
+
+  const handleClearHistory = async () => {
+    try {
+      await clearHistory(dbInfo.url);
+      setHistory([]);
+    } catch (err: any) {
+      notify(err.message, "error");
+    }
+  };
+
   const handleCreateRoot = async () => {
      try {
-       await writeData(dbInfo.url, '', { "demo_key": "Hello World", "created_at": Date.now() });
+       if (!await handleWrite([{ type: 'SET', path: '', data: { "demo_key": "Hello World", "created_at": Date.now() } }], "Initialize demo data")) return;
        fetchRootData();
        notify("Database initialized", "success");
      } catch(e: any) {
@@ -91,15 +638,25 @@ function App() {
   };
   
   const handleSaveRaw = async () => {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(rawJsonInput);
+    } catch {
+        notify("Invalid JSON format. Please check syntax.", "error");
+        return;
+    }
+
     setLoading(true);
     try {
-        const parsed = JSON.parse(rawJsonInput);
-        await writeData(dbInfo.url, '', parsed);
+        if (!await handleWrite([{ type: 'SET', path: focusPath, data: parsed }], focusPath ? `Replace /${focusPath} from raw JSON` : "Replace database from raw JSON")) {
+            setLoading(false);
+            return;
+        }
         notify("Database updated from JSON!", "success");
         fetchRootData();
         setViewMode('tree');
     } catch (e: any) {
-        notify("Invalid JSON format. Please check syntax.", "error");
+        notify(e.message || "Failed to save JSON", "error");
         setLoading(false);
     }
   };
@@ -113,22 +670,26 @@ function App() {
         let contextData = null;
         let rootKeys: string[] = [];
 
-        // If path is provided, get that data.
-        if (aiPath.trim()) {
+        const target = splitPath(aiPath).join('/');
+        const basePath = target || focusPath;
+        if (target && target !== focusPath) {
+           // A path other than the view root was typed in: that is an explicit request for its data
            try {
-             contextData = await readData(dbInfo.url, aiPath.trim());
+             contextData = await readData(dbInfo.url, target);
            } catch(e) {
              console.warn("Could not fetch context path");
            }
-        } else if (data && typeof data === 'object') {
-            // If no path, give AI the list of root keys so it knows structure
-            rootKeys = Object.keys(data);
+        } else {
+            // The view root only contributes its keys, from the loaded level or a shallow read, never a full download
+            const level = isUnloaded(viewData) ? fromShallow(await readShallow(dbInfo.url, focusPath)) : viewData;
+            if (isBranch(level)) rootKeys = Object.keys(level);
+            else contextData = level;
         }
 
         const response = await generateDataWithAI(aiPrompt, {
             currentData: contextData,
             rootKeys: rootKeys,
-            basePath: aiPath.trim()
+            basePath
         });
         
         setAiResult(response);
@@ -151,32 +712,24 @@ function App() {
     setLoading(true);
     
     try {
-      let successCount = 0;
-      
-      for (const action of aiResult.actions) {
-          // Normalize path: if user typed "delete users/1" and context was root, use path as is.
-          // The AI service returns full paths relative to DB root or context.
-          const fullPath = action.path.startsWith('/') ? action.path.slice(1) : action.path;
-
-          if (action.type === 'DELETE') {
-              await deleteData(dbInfo.url, fullPath);
-          } else if (action.type === 'SET') {
-              await writeData(dbInfo.url, fullPath, action.data);
-          } else if (action.type === 'UPDATE') {
-              await updateData(dbInfo.url, fullPath, action.data);
-          }
-          successCount++;
-      }
+      // The AI service returns full paths relative to DB root; leading slashes are stripped when run.
+      const onStatus = (index: number, status: OperationStatus) => setAiStatuses(prev => {
+        const next = [...prev];
+        next[index] = status;
+        return next;
+      });
+      if (!await handleWrite(aiResult.actions, `AI plan (${aiResult.actions.length} actions)`, { onStatus })) return;
       
-      notify(`Successfully executed ${successCount} actions.`, "success");
+      notify(`Successfully executed ${aiResult.actions.length} actions.`, "success");
       
       setShowAiModal(false);
       setAiPrompt('');
-      setAiPath('');
+      setAiPath(focusPath);
       setAiResult(null);
       fetchRootData();
     } catch (e: any) {
       notify("Error executing plan: " + e.message, "error");
+      fetchRootData();
     } finally {
       setLoading(false);
     }
@@ -217,14 +770,86 @@ function App() {
           
           {dbInfo.connected && (
             <div className="flex items-center gap-3">
+              {/* Connection Switcher */}
+              <div className="relative">
+                <button
+                  onClick={() => setShowSwitcher(!showSwitcher)}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium border transition-all ${activeProfile ? getTagStyle(activeProfile.tag).badge : 'bg-slate-800 text-slate-300 border-slate-700 hover:bg-slate-700'}`}
+                  title="Switch connection"
+                >
+                  {activeProfile ? <span className={`w-2.5 h-2.5 rounded-full ${getTagStyle(activeProfile.tag).dot}`}></span> : <Layers size={16} />}
+                  <span className="hidden sm:inline max-w-[160px] truncate">{activeProfile ? activeProfile.name : getDatabaseLabel(dbInfo.url)}</span>
+                  {activeProfile && <span className="hidden lg:inline text-[10px] uppercase font-bold opacity-80">{getTagStyle(activeProfile.tag).label}</span>}
+                  <ChevronDown size={14} />
+                </button>
+                {showSwitcher && (
+                  <div className="absolute right-0 mt-2 w-72 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl overflow-hidden z-50">
+                    {profiles.length === 0 && <p className="px-4 py-3 text-xs text-slate-500">No saved connections.</p>}
+                    {profiles.map(profile => (
+                      <button
+                        key={profile.id}
+                        onClick={() => handleSwitchProfile(profile)}
+                        disabled={loading || profile.id === activeProfile?.id}
+                        className="w-full flex items-center gap-3 px-4 py-2.5 text-left text-sm text-slate-200 hover:bg-slate-800 disabled:opacity-60 disabled:hover:bg-transparent transition-colors"
+                      >
+                        <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${getTagStyle(profile.tag).dot}`}></span>
+                        <span className="flex-1 min-w-0">
+                          <span className="block truncate">{profile.name}</span>
+                          <span className="block text-[10px] font-mono text-slate-500 truncate">{getDatabaseLabel(profile.url)}</span>
+                        </span>
+                        {profile.id === activeProfile?.id && <CheckCircle2 size={14} className="text-emerald-400 shrink-0" />}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => { setShowSwitcher(false); setShowSafety(true); }}
+                      className="w-full flex items-center gap-2 px-4 py-2.5 text-left text-xs font-bold text-red-300 hover:bg-slate-800 border-t border-slate-700 transition-colors"
+                    >
+                      <ShieldAlert size={14} /> Write protection
+                    </button>
+                    <button
+                      onClick={() => { setShowSwitcher(false); setShowProfiles(true); }}
+                      className="w-full flex items-center gap-2 px-4 py-2.5 text-left text-xs font-bold text-indigo-300 hover:bg-slate-800 border-t border-slate-700 transition-colors"
+                    >
+                      <Layers size={14} /> Manage connections
+                    </button>
+                  </div>
+                )}
+              </div>
+
               <button 
-                onClick={() => { setShowAiModal(true); setAiPath(''); setAiResult(null); }}
+                onClick={() => { setShowAiModal(true); setAiPath(focusPath); setAiResult(null); }}
                 className="hidden md:flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-fuchsia-600 to-purple-600 hover:from-fuchsia-500 hover:to-purple-500 text-white rounded-lg text-sm font-bold shadow-lg shadow-fuchsia-900/20 transition-all hover:-translate-y-0.5"
               >
                 <Sparkles size={16} /> AI Assistant
               </button>
 
               <div className="h-8 w-px bg-slate-700 mx-1 hidden md:block"></div>
+
+              <button
+                onClick={() => updateSafety({ ...safety, readOnly: !safety.readOnly })}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium border transition-all active:scale-95 ${
+                  safety.readOnly
+                    ? 'bg-red-500/10 text-red-300 border-red-500/30'
+                    : 'bg-slate-800 text-slate-400 border-slate-700 hover:text-white hover:bg-slate-700'
+                }`}
+                title={safety.readOnly ? 'Read-only: writes are blocked. Click to allow writes.' : 'Writes allowed. Click to switch to read-only.'}
+              >
+                {safety.readOnly ? <Lock size={16} /> : <LockOpen size={16} />}
+                <span className="hidden sm:inline">{safety.readOnly ? 'Read-only' : 'Writable'}</span>
+              </button>
+
+              <button
+                onClick={() => setLiveSync(!liveSync)}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium border transition-all active:scale-95 ${
+                  liveSync
+                    ? 'bg-emerald-500/10 text-emerald-300 border-emerald-500/30'
+                    : 'bg-slate-800 text-slate-400 border-slate-700 hover:text-white hover:bg-slate-700'
+                }`}
+                title={liveSync ? 'Stop live sync' : 'Stream changes as they happen (downloads everything under the focused path)'}
+              >
+                <Radio size={16} className={liveSync && liveStatus === 'live' ? 'animate-pulse' : ''} />
+                <span className="hidden sm:inline">{liveSync ? (liveStatus === 'live' ? 'Live' : 'Connecting...') : 'Live'}</span>
+              </button>
               
               <button 
                 onClick={() => fetchRootData()} 
@@ -261,25 +886,155 @@ function App() {
                 </p>
               </div>
 
+              {profiles.length > 0 && (
+                <div className="mb-6 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <label className="text-xs font-bold text-cyan-400 uppercase tracking-wider">Saved Connections</label>
+                    <button type="button" onClick={() => setShowProfiles(true)} className="text-xs text-slate-400 hover:text-white flex items-center gap-1">
+                      <Layers size={12} /> Manage
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    {profiles.map(profile => (
+                      <button
+                        key={profile.id}
+                        type="button"
+                        onClick={() => handleSwitchProfile(profile)}
+                        disabled={loading}
+                        className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-sm text-left transition-colors hover:brightness-125 disabled:opacity-60 ${getTagStyle(profile.tag).badge}`}
+                        title={profile.url}
+                      >
+                        <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${getTagStyle(profile.tag).dot}`}></span>
+                        <span className="truncate">{profile.name}</span>
+                        {profile.credentialType !== 'none' && <KeyRound size={12} className="ml-auto shrink-0 opacity-70" />}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <form onSubmit={handleConnect} className="space-y-6">
+                <div className="flex gap-2 bg-slate-900 p-1 rounded-lg border border-slate-700">
+                  <button
+                    type="button"
+                    onClick={() => setConnectionMode('cloud')}
+                    className={`flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all ${connectionMode === 'cloud' ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}
+                  >
+                    <Cloud size={16} /> Firebase
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setConnectionMode('emulator')}
+                    className={`flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all ${connectionMode === 'emulator' ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}
+                  >
+                    <Server size={16} /> Local Emulator
+                  </button>
+                </div>
+
+                {connectionMode === 'cloud' ? (
+                  <div>
+                    <label htmlFor="url" className="block text-xs font-bold text-cyan-400 uppercase tracking-wider mb-2">
+                      Database URL or Project ID
+                    </label>
+                    <div className="relative group/input">
+                      <input
+                        type="text"
+                        id="url"
+                        value={urlInput}
+                        onChange={(e) => setUrlInput(e.target.value)}
+                        placeholder="e.g. roman-tools-db or my-db.europe-west1"
+                        className="w-full bg-slate-900 border border-slate-600 rounded-xl py-4 px-4 pl-12 text-slate-100 focus:outline-none focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500 transition-all placeholder-slate-600 font-mono text-sm shadow-inner"
+                        required
+                      />
+                      <div className="absolute left-4 top-4 text-slate-500 group-focus-within/input:text-cyan-400 transition-colors">
+                        <Code size={20} />
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    <div className="flex gap-3">
+                      <div className="flex-[2]">
+                        <label htmlFor="emulatorHost" className="block text-xs font-bold text-cyan-400 uppercase tracking-wider mb-2">
+                          Host
+                        </label>
+                        <input
+                          type="text"
+                          id="emulatorHost"
+                          value={emulatorHost}
+                          onChange={(e) => setEmulatorHost(e.target.value)}
+                          className="w-full bg-slate-900 border border-slate-600 rounded-xl py-3 px-4 text-slate-100 focus:outline-none focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500 font-mono text-sm shadow-inner"
+                        />
+                      </div>
+                      <div className="flex-1">
+                        <label htmlFor="emulatorPort" className="block text-xs font-bold text-cyan-400 uppercase tracking-wider mb-2">
+                          Port
+                        </label>
+                        <input
+                          type="number"
+                          id="emulatorPort"
+                          value={emulatorPort}
+                          onChange={(e) => setEmulatorPort(e.target.value)}
+                          className="w-full bg-slate-900 border border-slate-600 rounded-xl py-3 px-4 text-slate-100 focus:outline-none focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500 font-mono text-sm shadow-inner"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <label htmlFor="emulatorNamespace" className="block text-xs font-bold text-cyan-400 uppercase tracking-wider mb-2">
+                        Namespace
+                      </label>
+                      <input
+                        type="text"
+                        id="emulatorNamespace"
+                        value={emulatorNamespace}
+                        onChange={(e) => setEmulatorNamespace(e.target.value)}
+                        placeholder="e.g. demo-project-default-rtdb"
+                        className="w-full bg-slate-900 border border-slate-600 rounded-xl py-3 px-4 text-slate-100 focus:outline-none focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500 transition-all placeholder-slate-600 font-mono text-sm shadow-inner"
+                        required
+                      />
+                    </div>
+                  </div>
+                )}
+
                 <div>
-                  <label htmlFor="url" className="block text-xs font-bold text-cyan-400 uppercase tracking-wider mb-2">
-                    Database URL or Project ID
+                  <label htmlFor="credential" className="block text-xs font-bold text-cyan-400 uppercase tracking-wider mb-2">
+                    Authentication
                   </label>
-                  <div className="relative group/input">
-                    <input
-                      type="text"
-                      id="url"
-                      value={urlInput}
-                      onChange={(e) => setUrlInput(e.target.value)}
-                      placeholder="e.g. roman-tools-db"
-                      className="w-full bg-slate-900 border border-slate-600 rounded-xl py-4 px-4 pl-12 text-slate-100 focus:outline-none focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500 transition-all placeholder-slate-600 font-mono text-sm shadow-inner"
-                      required
-                    />
-                    <div className="absolute left-4 top-4 text-slate-500 group-focus-within/input:text-cyan-400 transition-colors">
-                      <Code size={20} />
+                  <select
+                    id="credential"
+                    value={credentialType}
+                    onChange={(e) => setCredentialType(e.target.value as DbCredential['type'])}
+                    className="w-full bg-slate-900 border border-slate-600 rounded-xl py-3 px-4 text-slate-100 focus:outline-none focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500 text-sm"
+                  >
+                    <option value="none">None (public rules)</option>
+                    <option value="idToken">Firebase ID Token</option>
+                    <option value="accessToken">OAuth2 Access Token</option>
+                    <option value="secret">Database Secret (legacy)</option>
+                  </select>
+
+                  {credentialType !== 'none' && (
+                    <div className="mt-3 space-y-2">
+                      <div className="relative group/input">
+                        <input
+                          type="password"
+                          value={credentialInput}
+                          onChange={(e) => setCredentialInput(e.target.value)}
+                          placeholder={credentialType === 'secret' ? 'Database secret' : 'Paste token'}
+                          autoComplete="off"
+                          className="w-full bg-slate-900 border border-slate-600 rounded-xl py-3 px-4 pl-12 text-slate-100 focus:outline-none focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500 transition-all placeholder-slate-600 font-mono text-sm shadow-inner"
+                        />
+                        <div className="absolute left-4 top-3 text-slate-500 group-focus-within/input:text-cyan-400 transition-colors">
+                          <KeyRound size={20} />
+                        </div>
+                      </div>
+                      {credentialType === 'accessToken' && (
+                        <label className="flex items-center gap-2 text-xs text-slate-400">
+                          <input type="checkbox" checked={useAuthHeader} onChange={(e) => setUseAuthHeader(e.target.checked)} />
+                          Send as Authorization header instead of query parameter
+                        </label>
+                      )}
                     </div>
-                  </div>
+                  )}
                 </div>
 
                 {error && (
@@ -320,16 +1075,60 @@ function App() {
                        <FileJson size={16} /> Tree View
                     </button>
                     <button 
-                      onClick={() => { setViewMode('raw'); setRawJsonInput(JSON.stringify(data, null, 2)); }}
+                      onClick={() => { setViewMode('raw'); setRawJsonInput(hasUnloaded(viewData) ? '' : JSON.stringify(viewData, null, 2)); }}
                       className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all ${viewMode === 'raw' ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}
                     >
                        <Terminal size={16} /> Raw JSON
                     </button>
+                    <button 
+                      onClick={() => setViewMode('rules')}
+                      className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all ${viewMode === 'rules' ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}
+                    >
+                       <ShieldCheck size={16} /> Rules
+                    </button>
                  </div>
                  
                  <div className="flex items-center gap-2 w-full md:w-auto">
+                    <button
+                        onClick={() => { setShowSearch(!showSearch); setViewMode('tree'); }}
+                        className={`flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border rounded-lg text-sm font-medium transition-colors ${showSearch ? 'text-white border-indigo-500/50' : 'text-sky-300 border-slate-700'}`}
+                    >
+                        <Search size={16} /> Search
+                    </button>
+                    <button
+                        onClick={() => setQueryPath(focusPath)}
+                        className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-amber-300 border border-slate-700 rounded-lg text-sm font-medium transition-colors"
+                    >
+                        <Filter size={16} /> Query
+                    </button>
+                    <button
+                        onClick={() => setExportPath(focusPath)}
+                        className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-cyan-300 border border-slate-700 rounded-lg text-sm font-medium transition-colors"
+                    >
+                        <Download size={16} /> Export
+                    </button>
+                    <button
+                        onClick={() => setComparePath('')}
+                        className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-indigo-300 border border-slate-700 rounded-lg text-sm font-medium transition-colors"
+                        title="Compare two databases or two paths"
+                    >
+                        <Columns2 size={16} /> Compare
+                    </button>
+                    <button
+                        onClick={() => setShowImport(true)}
+                        className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-emerald-300 border border-slate-700 rounded-lg text-sm font-medium transition-colors"
+                    >
+                        <Upload size={16} /> Import
+                    </button>
+                    <button
+                        onClick={() => setShowHistory(true)}
+                        className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-orange-300 border border-slate-700 rounded-lg text-sm font-medium transition-colors"
+                        title="Undo / redo writes (Ctrl+Z / Ctrl+Shift+Z)"
+                    >
+                        <History size={16} /> History
+                    </button>
                     <button 
-                        onClick={() => { setShowAiModal(true); setAiPath(''); setAiResult(null); }}
+                        onClick={() => { setShowAiModal(true); setAiPath(focusPath); setAiResult(null); }}
                         className="flex-1 md:flex-none md:hidden flex items-center justify-center gap-2 px-4 py-2 bg-fuchsia-600 text-white rounded-lg text-sm font-bold shadow-lg"
                     >
                         <Sparkles size={16} /> AI Gen
@@ -340,17 +1139,36 @@ function App() {
             <div className="bg-slate-800 border border-slate-700 rounded-xl overflow-hidden shadow-2xl min-h-[600px] flex flex-col">
               {/* Toolbar */}
               <div className="bg-slate-800 p-3 border-b border-slate-700 flex justify-between items-center">
-                 <div className="text-xs font-mono text-slate-400 flex items-center gap-2">
-                    <span className="text-indigo-400 font-bold">PATH:</span> {dbInfo.url.replace('https://', '').split('.')[0]} / {viewMode === 'tree' ? 'root' : ''}
+                 <div className="text-xs font-mono text-slate-400 flex items-center gap-1 flex-wrap min-w-0">
+                    <span className="text-indigo-400 font-bold mr-1">PATH:</span> {getDatabaseLabel(dbInfo.url)}
+                    {viewMode === 'rules' ? (
+                      <span className="ml-1">/ .settings/rules</span>
+                    ) : getBreadcrumb(focusPath).map((crumb, idx, crumbs) => (
+                      <React.Fragment key={crumb.path}>
+                        {idx > 0 && <ChevronRight size={12} className="text-slate-600" />}
+                        <button
+                          onClick={() => focusOn(crumb.path)}
+                          disabled={idx === crumbs.length - 1}
+                          className={`px-1 rounded break-all ${idx === crumbs.length - 1 ? 'text-white font-bold' : 'text-slate-400 hover:text-white hover:bg-slate-700'}`}
+                        >
+                          {crumb.label}
+                        </button>
+                      </React.Fragment>
+                    ))}
                  </div>
+                 {safety.readOnly && (
+                    <div className="text-xs text-red-300 flex items-center gap-1.5">
+                       <Lock size={12} /> Read-only: edits will be rejected
+                    </div>
+                 )}
                  <div className="text-xs text-slate-500">
-                    {data ? (Array.isArray(data) ? `Array[${data.length}]` : (typeof data === 'object' ? `Object` : typeof data)) : 'Empty'}
+                    {viewData ? (Array.isArray(viewData) ? `Array[${viewData.length}]` : (typeof viewData === 'object' ? `Object` : typeof viewData)) : 'Empty'}
                  </div>
               </div>
               
               {/* Content Area */}
               <div className="flex-1 bg-slate-900/50 relative overflow-hidden flex flex-col">
-                {loading && !data && (
+                {loading && (!viewData || isUnloaded(viewData)) && (
                    <div className="absolute inset-0 z-10 bg-slate-900/80 flex flex-col items-center justify-center backdrop-blur-sm">
                      <RefreshCw size={40} className="animate-spin mb-4 text-cyan-500" />
                      <p className="text-cyan-100 font-medium">Syncing with Firebase...</p>
@@ -359,8 +1177,31 @@ function App() {
 
                 {/* Tree View */}
                 {viewMode === 'tree' && (
-                    <div className="overflow-auto p-0 flex-1">
-                        {!data ? (
+                    <div className="p-0 flex-1 flex flex-col">
+                        {showSearch && (
+                            <SearchPanel
+                                data={viewData}
+                                dbUrl={dbInfo.url}
+                                basePath={focusPath}
+                                onReveal={revealPath}
+                                onClose={() => { setShowSearch(false); setHighlight(null); }}
+                            />
+                        )}
+                        {isUnloaded(viewData) ? null : focusPath && viewData === null ? (
+                             <div className="flex flex-col items-center justify-center h-full text-slate-400 p-8">
+                                <div className="p-8 border-2 border-dashed border-slate-700 rounded-2xl flex flex-col items-center max-w-sm text-center">
+                                   <Crosshair size={48} className="mb-4 text-slate-600" />
+                                   <p className="mb-2 font-bold text-lg text-slate-300">Nothing at /{focusPath}</p>
+                                   <p className="text-sm text-slate-500 mb-6">The focused path has no data. It may have been deleted, or the link points somewhere else.</p>
+                                   <button
+                                     onClick={() => focusOn('')}
+                                     className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm font-medium transition-colors"
+                                   >
+                                     Back to root
+                                   </button>
+                                </div>
+                             </div>
+                        ) : !viewData ? (
                              <div className="flex flex-col items-center justify-center h-full text-slate-400">
                                 <div className="p-8 border-2 border-dashed border-slate-700 rounded-2xl flex flex-col items-center max-w-sm text-center">
                                    <Database size={48} className="mb-4 text-slate-600" />
@@ -374,7 +1215,7 @@ function App() {
                                          Init Demo
                                        </button>
                                        <button 
-                                         onClick={() => setShowAiModal(true)}
+                                         onClick={() => { setShowAiModal(true); setAiPath(focusPath); setAiResult(null); }}
                                          className="px-4 py-2 bg-fuchsia-600 hover:bg-fuchsia-500 text-white rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
                                        >
                                          <Sparkles size={14} /> Use AI
@@ -383,36 +1224,57 @@ function App() {
                                 </div>
                              </div>
                         ) : (
-                            <div className="font-mono text-sm">
-                                {typeof data === 'object' ? (
-                                    Object.entries(data).map(([key, val]) => (
-                                    <DataNode 
-                                        key={key} 
-                                        name={key} 
-                                        path="" 
-                                        value={val as any} 
-                                        dbUrl={dbInfo.url}
-                                        onRefresh={fetchRootData}
-                                        depth={0}
-                                    />
-                                    ))
-                                ) : (
-                                    <DataNode 
-                                    name="root"
-                                    path="" 
-                                    value={data} 
-                                    dbUrl={dbInfo.url}
-                                    onRefresh={fetchRootData}
-                                    depth={0}
-                                    />
-                                )}
-                            </div>
+                            <TreeView
+                                data={viewData}
+                                dbUrl={dbInfo.url}
+                                basePath={focusPath}
+                                expandedPaths={expandedPaths}
+                                nextPageKeys={nextPageKeys}
+                                onToggle={handleToggle}
+                                onLoadChildren={loadChildren}
+                                onLoadMore={loadMore}
+                                onRefresh={fetchRootData}
+                                onWrite={handleWrite}
+                                onError={(message) => notify(message, "error")}
+                                onQuery={setQueryPath}
+                                onExport={setExportPath}
+                                onFocus={focusOn}
+                                highlight={highlight}
+                            />
                         )}
                     </div>
                 )}
 
                 {/* Raw JSON View */}
-                {viewMode === 'raw' && (
+                {viewMode === 'raw' && hasUnloaded(viewData) && (
+                    <div className="flex-1 flex flex-col items-center justify-center text-slate-400 p-8">
+                        <div className="p-8 border-2 border-dashed border-slate-700 rounded-2xl flex flex-col items-center max-w-sm text-center">
+                            <Download size={48} className="mb-4 text-slate-600" />
+                            <p className="mb-2 font-bold text-lg text-slate-300">Full download required</p>
+                            <p className="text-sm text-slate-500 mb-6">The tree is loaded one level at a time. Raw JSON needs every level, which can be slow on large databases.</p>
+                            <button
+                              onClick={() => loadFullDatabase()}
+                              disabled={loading}
+                              className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+                            >
+                              <Download size={14} /> {focusPath ? `Download /${focusPath}` : 'Download Full Database'}
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {/* Rules View */}
+                {viewMode === 'rules' && (
+                    <RulesPanel
+                        dbUrl={dbInfo.url}
+                        confirmPhrase={confirmPhrase}
+                        snapshot={focusPath || hasUnloaded(data) ? undefined : data}
+                        onDone={(message) => notify(message, "success")}
+                        onError={(message) => notify(message, "error")}
+                    />
+                )}
+
+                {viewMode === 'raw' && !hasUnloaded(viewData) && (
                     <div className="flex-1 flex flex-col h-full">
                         <textarea 
                             className="flex-1 w-full bg-slate-950 text-slate-200 font-mono text-sm p-4 outline-none resize-none focus:ring-2 focus:ring-inset focus:ring-indigo-500/50"
@@ -444,6 +1306,112 @@ function App() {
         )}
       </main>
 
+      {/* Query Panel */}
+      {queryPath !== null && (
+        <QueryPanel
+          dbUrl={dbInfo.url}
+          path={queryPath}
+          onClose={() => setQueryPath(null)}
+          onRefresh={() => fetchRootData()}
+          onWrite={handleWrite}
+        />
+      )}
+
+      {/* Write Review */}
+      {pendingWrite && (
+        <WriteConfirmDialog
+          dbUrl={pendingWrite.dbUrl}
+          title={pendingWrite.title}
+          operations={pendingWrite.operations}
+          confirmPhrase={getConfirmPhrase(pendingWrite.dbUrl)}
+          protectedHits={findProtectedHits(loadSafety(pendingWrite.dbUrl).protectedPaths, pendingWrite.operations.map(operation => operation.path))}
+          onConfirm={(preview) => pendingWrite.resolve(preview)}
+          onCancel={() => pendingWrite.resolve(null)}
+        />
+      )}
+
+      {/* Write Conflict */}
+      {pendingConflict && (
+        <ConflictDialog
+          path={normalizePath(pendingConflict.operation.path)}
+          base={pendingConflict.base}
+          theirs={pendingConflict.theirs}
+          mine={pendingConflict.operation.type === 'DELETE' ? null : pendingConflict.operation.data}
+          canMerge={pendingConflict.operation.type === 'SET'}
+          onOverwrite={() => pendingConflict.resolve({ ...pendingConflict.operation, etag: pendingConflict.etag })}
+          onMerge={(value) => pendingConflict.resolve({ ...pendingConflict.operation, data: value, etag: pendingConflict.etag, base: pendingConflict.theirs })}
+          onAbandon={() => pendingConflict.resolve(null)}
+        />
+      )}
+
+      {/* History Panel */}
+      {showHistory && (
+        <HistoryPanel
+          entries={history}
+          busy={historyBusy}
+          onRevert={handleRevert}
+          onReapply={handleReapply}
+          onClear={handleClearHistory}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {/* Connection Manager */}
+      {showProfiles && (
+        <ConnectionManager
+          profiles={profiles}
+          current={dbInfo.connected ? dbInfo : null}
+          onChange={setProfiles}
+          onClose={() => setShowProfiles(false)}
+        />
+      )}
+
+      {/* Export Panel */}
+      {exportPath !== null && (
+        <ExportPanel
+          dbUrl={dbInfo.url}
+          path={exportPath}
+          onClose={() => setExportPath(null)}
+          onDone={(message) => { setExportPath(null); notify(message, "success"); }}
+        />
+      )}
+
+      {/* Write Protection */}
+      {showSafety && (
+        <SafetyPanel
+          dbUrl={dbInfo.url}
+          safety={safety}
+          onChange={updateSafety}
+          onClose={() => setShowSafety(false)}
+        />
+      )}
+
+      {/* Compare Panel */}
+      {comparePath !== null && (
+        <ComparePanel
+          currentUrl={dbInfo.url}
+          profiles={profiles}
+          path={comparePath}
+          onWrite={async (operations, title, url) => {
+            const written = await handleWrite(operations, title, { dbUrl: url });
+            if (written && url === dbInfo.url) fetchRootData();
+            return written;
+          }}
+          onClose={() => setComparePath(null)}
+        />
+      )}
+
+      {/* Import Panel */}
+      {showImport && (
+        <ImportPanel
+          dbUrl={dbInfo.url}
+          path={focusPath}
+          onWrite={(operations, title, onStatus) => handleWrite(operations, title, { onStatus })}
+          onClose={() => setShowImport(false)}
+          onDone={(message) => { setShowImport(false); notify(message, "success"); fetchRootData(); refreshHistory(); }}
+        />
+      )}
+
       {/* AI Modal */}
       {showAiModal && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-md animate-in fade-in duration-200 px-4">
@@ -484,7 +1452,7 @@ function App() {
                                         <Code size={16} />
                                     </div>
                                     <div className="text-[10px] text-slate-500 mt-1.5 ml-1">
-                                        Leave empty to let AI decide paths based on your prompt.
+                                        Leave empty or at the focused node to send only its keys. Any other path sends its full data.
                                     </div>
                                 </div>
                             </div>
@@ -536,6 +1504,9 @@ function App() {
                                  <div className="bg-slate-950 rounded-xl border border-slate-800 p-4 font-mono text-xs overflow-auto max-h-[250px] text-slate-300 relative group flex-1">
                                     <div className="flex items-center gap-2 mb-3 text-slate-400 font-bold uppercase tracking-wider border-b border-slate-800 pb-2">
                                         <ListTodo size={14} /> Proposed Actions
+                                        <span className="ml-auto normal-case font-normal text-[10px] text-slate-500">
+                                            {['single', 'atomic'].includes(batchMode(aiResult.actions)) ? 'applies atomically' : 'runs in order, rolls back on failure'}
+                                        </span>
                                     </div>
                                     <div className="space-y-2">
                                         {aiResult.actions.map((action, idx) => (
@@ -548,7 +1519,13 @@ function App() {
                                                     {action.type}
                                                 </div>
                                                 <div className="flex-1 break-all">
-                                                    <div className="text-indigo-300 font-bold">{action.path || '/'}</div>
+                                                    <div className="flex items-center gap-2">
+                                                        <span className="text-indigo-300 font-bold">{action.path || '/'}</span>
+                                                        {aiStatuses[idx] === 'pending' && <RefreshCw size={12} className="animate-spin text-slate-400" />}
+                                                        {aiStatuses[idx] === 'ok' && <CheckCircle2 size={12} className="text-emerald-400" />}
+                                                        {aiStatuses[idx] === 'failed' && <span className="flex items-center gap-1 text-red-400"><X size={12} /> failed</span>}
+                                                        {aiStatuses[idx] === 'rolled-back' && <span className="flex items-center gap-1 text-amber-400"><Undo2 size={12} /> rolled back</span>}
+                                                    </div>
                                                     {action.data !== undefined && (
                                                         <div className="text-slate-500 truncate mt-1 max-w-[200px] opacity-70">
                                                             {JSON.stringify(action.data)}
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Trash2, PenLine, Eraser, Download, Link, Check, X, Loader2, AlertCircle } from 'lucide-react';
+import { WriteOperation } from '../types';
+import { getDatabaseLabel } from '../services/firebaseService';
+import { BulkAction, BULK_LABELS, validateField, buildBulkOperations, describeBulk, readSelection } from '../services/bulkService';
+import { serialize, buildFilename, downloadFile } from '../services/exportService';
+import { splitPath } from '../services/treeUtils';
+import { ValueDraft, emptyDraft, parseDraft } from '../services/valueService';
+import { batchMode, MAX_ATOMIC_BYTES } from '../services/mutationService';
+import ValueEditor from './ValueEditor';
+
+interface BulkActionBarProps {
+  dbUrl: string;
+  paths: string[]; // selected siblings, in tree order
+  onWrite: (operations: WriteOperation[], title: string) => Promise<boolean>;
+  onRefresh: () => void;
+  onError: (message: string) => void;
+  onClear: () => void;
+}
+
+const buttonClass = "flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-bold rounded-lg border transition-colors disabled:opacity-50";
+const inputClass = "bg-slate-950 border border-slate-600 rounded-lg px-3 py-1.5 text-sm font-mono text-white focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none";
+
+// Actions on the selected rows. Every write is one batch, reviewed once. It applies as one atomic
+// update unless it is over the size limit, which the field row says before anything is sent.
+const BulkActionBar: React.FC<BulkActionBarProps> = ({ dbUrl, paths, onWrite, onRefresh, onError, onClear }) => {
+  const [fieldAction, setFieldAction] = useState<'setField' | 'removeField' | null>(null);
+  const [field, setField] = useState('');
+  const [value, setValue] = useState<ValueDraft>(emptyDraft());
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const parent = splitPath(paths[0] || '').slice(0, -1).join('/');
+  const fieldProblem = fieldAction ? validateField(field) : null;
+  const parsed = parseDraft(value);
+  const fieldReady = fieldAction !== null && !fieldProblem && (fieldAction === 'removeField' || !parsed.error);
+  const mode = fieldAction && fieldReady ? batchMode(buildBulkOperations(fieldAction, paths, field, parsed.value)) : null;
+
+  const run = async (action: BulkAction) => {
+    const operations = buildBulkOperations(action, paths, field, parsed.value);
+    setBusy(true);
+    try {
+      if (!await onWrite(operations, describeBulk(action, paths, field))) return;
+      setFieldAction(null);
+      if (action === 'delete') onClear();
+      onRefresh();
+    } catch (error: any) {
+      onError(error.message || `${BULK_LABELS[action]} failed`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      const selection = await readSelection(dbUrl, paths);
+      downloadFile(buildFilename(getDatabaseLabel(dbUrl), `${parent}/selection`, 'json-pretty'), serialize(selection, 'json-pretty'), 'application/json');
+    } catch (error: any) {
+      onError(error.message || 'Export failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopyPaths = async () => {
+    try {
+      await navigator.clipboard.writeText(paths.map(path => `/${path}`).join('\n'));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error: any) {
+      onError(error.message || 'Failed to copy paths.');
+    }
+  };
+
+  const openField = (action: 'setField' | 'removeField') => setFieldAction(current => (current === action ? null : action));
+
+  return (
+    <div className="border-b border-indigo-500/30 bg-indigo-950/40 px-3 py-2 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-bold text-indigo-200 mr-1">
+          {paths.length} selected <span className="font-mono font-normal text-indigo-300/70">under /{parent}</span>
+        </span>
+        <button onClick={() => run('delete')} disabled={busy} className={`${buttonClass} text-red-300 border-red-500/30 bg-red-900/20 hover:bg-red-900/40`} title="Delete every selected node in one update">
+          <Trash2 size={14} /> Delete
+        </button>
+        <button onClick={() => openField('setField')} disabled={busy} className={`${buttonClass} ${fieldAction === 'setField' ? 'bg-slate-700 text-white border-slate-500' : 'text-slate-300 border-slate-700 bg-slate-800 hover:bg-slate-700'}`}>
+          <PenLine size={14} /> Set field
+        </button>
+        <button onClick={() => openField('removeField')} disabled={busy} className={`${buttonClass} ${fieldAction === 'removeField' ? 'bg-slate-700 text-white border-slate-500' : 'text-slate-300 border-slate-700 bg-slate-800 hover:bg-slate-700'}`}>
+          <Eraser size={14} /> Remove field
+        </button>
+        <button onClick={handleExport} disabled={busy} className={`${buttonClass} text-cyan-300 border-slate-700 bg-slate-800 hover:bg-slate-700`} title="Download the selected nodes as one JSON object">
+          <Download size={14} /> Export
+        </button>
+        <button onClick={handleCopyPaths} className={`${buttonClass} ${copied ? 'text-emerald-400 border-emerald-500/30 bg-emerald-400/10' : 'text-slate-300 border-slate-700 bg-slate-800 hover:bg-slate-700'}`}>
+          {copied ? <Check size={14} /> : <Link size={14} />} Copy paths
+        </button>
+        {busy && <Loader2 size={14} className="animate-spin text-indigo-300" />}
+        <button onClick={onClear} className="ml-auto text-slate-500 hover:text-white p-1 rounded-md hover:bg-slate-800" title="Clear selection (Esc)">
+          <X size={16} />
+        </button>
+      </div>
+
+      {fieldAction && (
+        <div className="flex flex-wrap items-start gap-2">
+          <input
+            autoFocus
+            className={`${inputClass} w-48`}
+            placeholder="Field, e.g. status or meta/updatedAt"
+            value={field}
+            onChange={(e) => setField(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setFieldAction(null);
+              if (e.key === 'Enter' && fieldAction === 'removeField' && !fieldProblem) run('removeField');
+            }}
+          />
+          {fieldAction === 'setField' && (
+            <div className="flex-1 min-w-[240px]">
+              <ValueEditor draft={value} onChange={setValue} onSubmit={() => !fieldProblem && !parsed.error && run('setField')} onCancel={() => setFieldAction(null)} />
+            </div>
+          )}
+          <button
+            onClick={() => run(fieldAction)}
+            disabled={busy || !!fieldProblem || (fieldAction === 'setField' && !!parsed.error)}
+            className="bg-indigo-600 hover:bg-indigo-500 text-white font-semibold px-4 py-1.5 rounded-lg text-sm disabled:opacity-50 shadow-lg active:scale-95 transition-all"
+          >
+            {BULK_LABELS[fieldAction]} on {paths.length}
+          </button>
+          {field && fieldProblem && (
+            <div className="w-full text-[11px] text-red-300 flex items-center gap-1">
+              <AlertCircle size={12} className="shrink-0" /> {fieldProblem}
+            </div>
+          )}
+          {mode === 'too-large' ? (
+            <div className="w-full text-[11px] text-amber-300 flex items-center gap-1">
+              <AlertCircle size={12} className="shrink-0" /> Not atomic: over {MAX_ATOMIC_BYTES / 1024} KB, so each node is written in turn and all are rolled back if one fails.
+            </div>
+          ) : mode === 'atomic' && (
+            <div className="w-full text-[11px] text-slate-400">All {paths.length} nodes change in one atomic update.</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
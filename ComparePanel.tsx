@@ -0,0 +1,260 @@
+import React, { useState, useMemo } from 'react';
+import { Columns2, X, RefreshCw, AlertCircle, ChevronRight, ChevronDown, Copy, Upload, Play } from 'lucide-react';
+import { ConnectionProfile, WriteOperation } from '../types';
+import { getCredential, getDatabaseLabel } from '../services/firebaseService';
+import { fetchInChunks } from '../services/exportService';
+import { findProfile, getTagStyle } from '../services/profileService';
+import { buildCompareRows, collectChangedBranches, buildSyncOperations, toMultiPathUpdate, CompareStatus } from '../services/compareService';
+import { summarizeDiff, diffValues } from '../services/diffService';
+
+interface ComparePanelProps {
+  currentUrl: string;
+  profiles: ConnectionProfile[];
+  path: string;
+  onWrite: (operations: WriteOperation[], title: string, dbUrl: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+interface Side {
+  url: string;
+  path: string;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded-lg py-2 px-3 text-white text-sm focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none placeholder-slate-600";
+
+const rowStyles: Record<CompareStatus, string> = {
+  added: 'bg-emerald-900/30 text-emerald-300',
+  removed: 'bg-red-900/30 text-red-300',
+  changed: 'bg-blue-900/30 text-blue-300',
+  same: 'text-slate-400',
+};
+
+const formatValue = (value: any, branch: boolean): string => {
+  if (value === undefined) return '';
+  if (branch && value !== null && typeof value === 'object') return `{${Object.keys(value).length}}`;
+  const text = JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
+
+const cleanPath = (path: string) => path.trim().replace(/^\/+|\/+$/g, '');
+
+// Loads one path from two databases (or two paths from one) and lines them up row by row.
+// The patch makes the target match the source.
+const ComparePanel: React.FC<ComparePanelProps> = ({ currentUrl, profiles, path, onWrite, onClose }) => {
+  const [source, setSource] = useState<Side>({ url: currentUrl, path });
+  const [target, setTarget] = useState<Side>({ url: currentUrl, path });
+  const [loaded, setLoaded] = useState<{ source: any; target: any; sourceSide: Side; targetSide: Side } | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [onlyDifferences, setOnlyDifferences] = useState(true);
+  const [status, setStatus] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Other databases are only reachable if they need no credential or one was entered this session
+  const connections = useMemo(() => [
+    { url: currentUrl, label: `This connection (${getDatabaseLabel(currentUrl)})`, available: true },
+    ...profiles
+      .filter(profile => profile !== findProfile(profiles, currentUrl))
+      .map(profile => ({
+        url: profile.url,
+        label: `${profile.name} [${getTagStyle(profile.tag).label}]`,
+        available: profile.credentialType === 'none' || !!getCredential(profile.url),
+      })),
+  ], [currentUrl, profiles]);
+
+  const rows = useMemo(
+    () => loaded ? buildCompareRows(loaded.source, loaded.target, expanded, onlyDifferences) : [],
+    [loaded, expanded, onlyDifferences]
+  );
+  const operations = useMemo(
+    () => loaded ? buildSyncOperations(loaded.source, loaded.target, cleanPath(loaded.targetSide.path)) : [],
+    [loaded]
+  );
+  const summary = useMemo(
+    () => loaded ? summarizeDiff(diffValues(loaded.target, loaded.source)) : null,
+    [loaded]
+  );
+
+  const handleCompare = async () => {
+    setBusy(true);
+    setError(null);
+    setLoaded(null);
+    try {
+      const sourceValue = await fetchInChunks(source.url, cleanPath(source.path), ({ loaded, total }) => setStatus(`Reading source... ${loaded}/${total}`));
+      const targetValue = await fetchInChunks(target.url, cleanPath(target.path), ({ loaded, total }) => setStatus(`Reading target... ${loaded}/${total}`));
+      setExpanded(new Set());
+      setLoaded({ source: sourceValue, target: targetValue, sourceSide: source, targetSide: target });
+    } catch (err: any) {
+      setError(err.message || "Could not load both sides");
+    } finally {
+      setStatus(null);
+      setBusy(false);
+    }
+  };
+
+  const toggle = (rowPath: string) => setExpanded(prev => {
+    const next = new Set(prev);
+    if (next.has(rowPath)) next.delete(rowPath);
+    else next.add(rowPath);
+    return next;
+  });
+
+  const handleApply = async () => {
+    if (!loaded || operations.length === 0) return;
+    const targetPath = cleanPath(loaded.targetSide.path);
+    setBusy(true);
+    setError(null);
+    try {
+      const title = `Sync /${targetPath} on ${getDatabaseLabel(loaded.targetSide.url)} from ${getDatabaseLabel(loaded.sourceSide.url)} /${cleanPath(loaded.sourceSide.path)}`;
+      if (await onWrite(operations, title, loaded.targetSide.url)) await handleCompare();
+    } catch (err: any) {
+      setError(err.message || "Failed to apply the patch");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderSideInputs = (label: string, side: Side, onChange: (side: Side) => void) => (
+    <div className="flex-1 space-y-2">
+      <label className="text-xs font-bold text-indigo-400 uppercase tracking-wider block">{label}</label>
+      <select className={inputClass} value={side.url} onChange={(e) => onChange({ ...side, url: e.target.value })} disabled={busy}>
+        {connections.map(connection => (
+          <option key={connection.url} value={connection.url} disabled={!connection.available}>
+            {connection.label}{connection.available ? '' : ' (connect once to unlock)'}
+          </option>
+        ))}
+      </select>
+      <input className={`${inputClass} font-mono`} placeholder="/ (root)" value={side.path} onChange={(e) => onChange({ ...side, path: e.target.value })} disabled={busy} />
+    </div>
+  );
+
+  const renderCell = (value: any, branch: boolean, missing: boolean) => (
+    <span className={`truncate ${missing ? 'text-slate-600 italic' : ''}`}>{missing ? 'missing' : formatValue(value, branch)}</span>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-md animate-in fade-in duration-200 px-4">
+      <div className="bg-slate-900 border border-indigo-500/50 rounded-2xl shadow-2xl w-full max-w-6xl overflow-hidden relative flex flex-col max-h-[90vh]">
+        <div className="absolute top-0 w-full h-1 bg-gradient-to-r from-indigo-500 to-emerald-500"></div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="flex justify-between items-start">
+            <div className="flex items-center gap-3">
+              <div className="bg-indigo-500/20 p-2 rounded-lg">
+                <Columns2 size={24} className="text-indigo-400" />
+              </div>
+              <div>
+                <h3 className="text-xl font-bold text-white">Compare</h3>
+                <p className="text-xs text-slate-400">Two databases or two paths, side by side</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors bg-slate-800 p-1 rounded-md">
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="flex flex-col md:flex-row gap-4 items-end">
+            {renderSideInputs('Source', source, setSource)}
+            {renderSideInputs('Target', target, setTarget)}
+            <button
+              onClick={handleCompare}
+              disabled={busy}
+              className="px-5 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-bold rounded-lg shadow-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              {busy ? <RefreshCw size={14} className="animate-spin" /> : <Play size={14} fill="currentColor" />} Compare
+            </button>
+          </div>
+
+          {status && (
+            <div className="text-xs text-slate-400 flex items-center gap-2">
+              <RefreshCw size={14} className="animate-spin" /> {status}
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-900/20 border border-red-500/30 rounded-lg text-red-200 text-sm flex items-start gap-2">
+              <AlertCircle size={16} className="mt-0.5 shrink-0 text-red-400" /> <span className="break-all">{error}</span>
+            </div>
+          )}
+
+          {loaded && summary && (
+            <>
+              <div className="flex flex-wrap items-center gap-4 text-xs font-mono font-bold uppercase tracking-wider">
+                <span className="text-emerald-400">+{summary.added} only in source</span>
+                <span className="text-blue-400">~{summary.changed} changed</span>
+                <span className="text-red-400">-{summary.removed} only in target</span>
+                <label className="ml-auto flex items-center gap-2 normal-case font-normal text-slate-300 font-sans">
+                  <input type="checkbox" checked={onlyDifferences} onChange={(e) => setOnlyDifferences(e.target.checked)} /> Only differences
+                </label>
+                <button
+                  onClick={() => setExpanded(new Set(collectChangedBranches(loaded.source, loaded.target)))}
+                  className="normal-case font-sans font-medium text-indigo-300 hover:text-white"
+                >
+                  Expand differences
+                </button>
+              </div>
+
+              {/* Dual tree: one row per key, source on the left and target on the right */}
+              <div className="bg-slate-950 rounded-xl border border-slate-800 font-mono text-xs max-h-[40vh] overflow-auto">
+                <div className="grid grid-cols-2 sticky top-0 bg-slate-900 border-b border-slate-800 text-[10px] uppercase font-bold tracking-wider text-slate-400">
+                  <div className="px-3 py-2 truncate">Source · {getDatabaseLabel(loaded.sourceSide.url)} /{cleanPath(loaded.sourceSide.path)}</div>
+                  <div className="px-3 py-2 truncate border-l border-slate-800">Target · {getDatabaseLabel(loaded.targetSide.url)} /{cleanPath(loaded.targetSide.path)}</div>
+                </div>
+                {rows.length === 0 && (
+                  <p className="px-3 py-4 text-slate-500">{operations.length === 0 ? 'Both sides are identical.' : 'The values differ at the compared path itself.'}</p>
+                )}
+                {rows.map(row => {
+                  const chevron = row.branch ? (expanded.has(row.path) ? <ChevronDown size={12} /> : <ChevronRight size={12} />) : <span className="w-3" />;
+                  return (
+                    <div
+                      key={row.path}
+                      onClick={() => row.branch && toggle(row.path)}
+                      className={`grid grid-cols-2 border-b border-slate-900 ${rowStyles[row.status]} ${row.branch ? 'cursor-pointer hover:brightness-125' : ''}`}
+                    >
+                      {[row.source, row.target].map((value, side) => (
+                        <div key={side} className={`flex items-center gap-1 px-3 py-1 min-w-0 ${side ? 'border-l border-slate-800' : ''}`} style={{ paddingLeft: `${12 + row.depth * 16}px` }}>
+                          {chevron}
+                          <span className="text-indigo-300 shrink-0">{row.key}:</span>
+                          {renderCell(value, row.branch, value === undefined)}
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {/* Patch */}
+              {operations.length > 0 && (
+                <div className="space-y-2">
+                  <label className="text-xs font-bold text-indigo-400 uppercase tracking-wider block">
+                    Patch: make the target match the source ({operations.length} path{operations.length === 1 ? '' : 's'})
+                  </label>
+                  <pre className="bg-slate-950 border border-slate-800 rounded-lg p-3 text-xs font-mono text-slate-300 overflow-auto max-h-40 whitespace-pre-wrap break-all">
+                    {JSON.stringify(toMultiPathUpdate(operations), null, 2)}
+                  </pre>
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => navigator.clipboard.writeText(JSON.stringify(toMultiPathUpdate(operations), null, 2))}
+                      className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 text-sm font-bold rounded-lg transition-colors flex justify-center items-center gap-2"
+                    >
+                      <Copy size={14} /> Copy Patch
+                    </button>
+                    <button
+                      onClick={handleApply}
+                      disabled={busy}
+                      className="flex-[2] py-2 bg-emerald-600 hover:bg-emerald-500 text-white text-sm font-bold rounded-lg shadow-lg transition-colors flex justify-center items-center gap-2 disabled:opacity-50"
+                    >
+                      <Upload size={14} /> Apply to Target
+                    </button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparePanel;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+
+interface ConfirmPhraseInputProps {
+  phrase: string;
+  value: string;
+  onChange: (value: string) => void;
+  reason?: string;
+}
+
+// Extra step for prod connections and protected paths: the write stays disabled until the phrase is typed
+const ConfirmPhraseInput: React.FC<ConfirmPhraseInputProps> = ({ phrase, value, onChange, reason = 'This is a production database.' }) => (
+  <div className="p-3 bg-red-900/20 border border-red-500/30 rounded-lg space-y-2">
+    <p className="text-xs text-red-200 flex items-center gap-2">
+      <ShieldAlert size={14} className="shrink-0 text-red-400" />
+      <span>{reason} Type <span className="font-mono font-bold text-white">{phrase}</span> to confirm.</span>
+    </p>
+    <input
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={phrase}
+      autoComplete="off"
+      spellCheck={false}
+      className="w-full bg-slate-950 border border-red-500/30 rounded-lg py-2 px-3 text-white text-sm focus:border-red-500 focus:ring-1 focus:ring-red-500 outline-none font-mono placeholder-slate-700"
+    />
+  </div>
+);
+
+export default ConfirmPhraseInput;
@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react';
+import { GitMerge, X, AlertTriangle, Upload } from 'lucide-react';
+import { diffValues, mergeThreeWay } from '../services/diffService';
+import DiffView from './DiffView';
+
+interface ConflictDialogProps {
+  path: string;
+  base: any;
+  theirs: any;
+  mine: any;
+  canMerge: boolean; // only a SET has a value to merge
+  onOverwrite: () => void;
+  onMerge: (value: any) => void;
+  onAbandon: () => void;
+}
+
+const columns: { key: 'base' | 'theirs' | 'mine'; label: string; color: string }[] = [
+  { key: 'base', label: 'Base', color: 'text-slate-400' },
+  { key: 'theirs', label: 'Theirs (server now)', color: 'text-amber-300' },
+  { key: 'mine', label: 'Mine', color: 'text-cyan-300' },
+];
+
+// Shown when a conditional write gets a 412: someone changed the node after we read it
+const ConflictDialog: React.FC<ConflictDialogProps> = ({ path, base, theirs, mine, canMerge, onOverwrite, onMerge, onAbandon }) => {
+  const values = { base, theirs, mine };
+  const merged = useMemo(() => mergeThreeWay(base, theirs, mine, path), [base, theirs, mine, path]);
+  const theirChanges = useMemo(() => diffValues(base, theirs, path), [base, theirs, path]);
+  const myChanges = useMemo(() => diffValues(base, mine, path), [base, mine, path]);
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center bg-black/80 backdrop-blur-md animate-in fade-in duration-200 px-4">
+      <div className="bg-slate-900 border border-amber-500/50 rounded-2xl shadow-2xl w-full max-w-5xl overflow-hidden relative flex flex-col max-h-[90vh]">
+        <div className="absolute top-0 w-full h-1 bg-gradient-to-r from-amber-500 to-red-500"></div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="flex justify-between items-start">
+            <div className="flex items-center gap-3">
+              <div className="bg-amber-500/20 p-2 rounded-lg">
+                <AlertTriangle size={24} className="text-amber-400" />
+              </div>
+              <div>
+                <h3 className="text-xl font-bold text-white">Write Conflict</h3>
+                <p className="text-xs text-slate-400"><span className="font-mono text-indigo-300">/{path}</span> changed on the server after you loaded it.</p>
+              </div>
+            </div>
+            <button onClick={onAbandon} className="text-slate-500 hover:text-white transition-colors bg-slate-800 p-1 rounded-md">
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="grid md:grid-cols-3 gap-3">
+            {columns.map(column => (
+              <div key={column.key} className="flex flex-col min-w-0">
+                <label className={`text-xs font-bold uppercase tracking-wider mb-1 ${column.color}`}>{column.label}</label>
+                <pre className="flex-1 bg-slate-950 border border-slate-800 rounded-lg p-3 text-xs font-mono text-slate-300 overflow-auto max-h-64 whitespace-pre-wrap break-all">
+                  {JSON.stringify(values[column.key], null, 2)}
+                </pre>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs font-bold text-amber-300 uppercase tracking-wider mb-1 block">Their changes</label>
+              <DiffView entries={theirChanges} maxItems={50} />
+            </div>
+            <div>
+              <label className="text-xs font-bold text-cyan-300 uppercase tracking-wider mb-1 block">Your changes</label>
+              <DiffView entries={myChanges} maxItems={50} />
+            </div>
+          </div>
+
+          {canMerge && merged.conflicts.length > 0 && (
+            <p className="text-xs text-amber-200/80">
+              Merging keeps your value where both sides changed: <span className="font-mono">{merged.conflicts.map(p => `/${p}`).join(', ')}</span>
+            </p>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              onClick={onAbandon}
+              className="flex-1 py-3 bg-slate-800 hover:bg-slate-700 text-slate-300 font-bold rounded-xl transition-colors"
+            >
+              Abandon
+            </button>
+            {canMerge && (
+              <button
+                onClick={() => onMerge(merged.value)}
+                className="flex-1 py-3 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-xl shadow-lg transition-colors flex justify-center items-center gap-2"
+              >
+                <GitMerge size={18} /> Merge
+              </button>
+            )}
+            <button
+              onClick={onOverwrite}
+              className="flex-1 py-3 bg-red-600 hover:bg-red-500 text-white font-bold rounded-xl shadow-lg transition-colors flex justify-center items-center gap-2"
+            >
+              <Upload size={18} /> Overwrite
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictDialog;
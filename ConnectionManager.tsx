@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Layers, X, Save, Trash2 } from 'lucide-react';
+import { ConnectionProfile, DbCredential, ProfileTag } from '../types';
+import { getDatabaseLabel } from '../services/firebaseService';
+import { PROFILE_TAGS, getTagStyle, saveProfile, deleteProfile, findProfile, createProfileId } from '../services/profileService';
+
+interface ConnectionManagerProps {
+  profiles: ConnectionProfile[];
+  current: { url: string; credential?: DbCredential } | null; // the open connection, offered for saving
+  onChange: (profiles: ConnectionProfile[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded-lg py-2 px-3 text-white text-sm focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none placeholder-slate-600";
+
+const TagSelect: React.FC<{ value: ProfileTag; onChange: (tag: ProfileTag) => void }> = ({ value, onChange }) => (
+  <select value={value} onChange={(e) => onChange(e.target.value as ProfileTag)} className={`${inputClass} w-auto`}>
+    {PROFILE_TAGS.map(tag => <option key={tag.id} value={tag.id}>{tag.label}</option>)}
+  </select>
+);
+
+// Saved connections: name, color tag and how to authenticate. Tokens are never saved,
+// so a profile that needs one asks for it again after a reload.
+const ConnectionManager: React.FC<ConnectionManagerProps> = ({ profiles, current, onChange, onClose }) => {
+  const unsaved = current && !findProfile(profiles, current.url) ? current : null;
+  const [name, setName] = useState(() => current ? getDatabaseLabel(current.url) : '');
+  const [tag, setTag] = useState<ProfileTag>('dev');
+
+  const handleSaveCurrent = () => {
+    if (!unsaved || !name.trim()) return;
+    const credential = unsaved.credential || { type: 'none' };
+    onChange(saveProfile({
+      id: createProfileId(),
+      name: name.trim(),
+      url: unsaved.url,
+      credentialType: credential.type,
+      useAuthHeader: credential.type === 'accessToken' ? credential.useHeader : undefined,
+      tag,
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-md animate-in fade-in duration-200 px-4">
+      <div className="bg-slate-900 border border-indigo-500/50 rounded-2xl shadow-2xl w-full max-w-xl overflow-hidden relative flex flex-col max-h-[90vh]">
+        <div className="absolute top-0 w-full h-1 bg-gradient-to-r from-emerald-500 via-amber-500 to-red-500"></div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div className="flex justify-between items-start">
+            <div className="flex items-center gap-3">
+              <div className="bg-indigo-500/20 p-2 rounded-lg">
+                <Layers size={24} className="text-indigo-400" />
+              </div>
+              <div>
+                <h3 className="text-xl font-bold text-white">Connections</h3>
+                <p className="text-xs text-slate-400">Tokens are never saved, only the credential type</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors bg-slate-800 p-1 rounded-md">
+              <X size={20} />
+            </button>
+          </div>
+
+          {unsaved && (
+            <div className="space-y-2">
+              <label className="text-xs font-bold text-indigo-400 uppercase tracking-wider block">Save Current Connection</label>
+              <p className="text-xs font-mono text-slate-500 break-all">{unsaved.url}</p>
+              <div className="flex gap-2">
+                <input className={inputClass} value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" />
+                <TagSelect value={tag} onChange={setTag} />
+                <button
+                  onClick={handleSaveCurrent}
+                  disabled={!name.trim()}
+                  className="px-4 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-bold rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+                >
+                  <Save size={14} /> Save
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-indigo-400 uppercase tracking-wider block">Saved</label>
+            {profiles.length === 0 && <p className="text-xs text-slate-500">No saved connections yet. Connect to a database and save it here.</p>}
+            {profiles.map(profile => (
+              <div key={profile.id} className="p-3 bg-slate-800/50 border border-slate-700 rounded-lg space-y-2">
+                <div className="flex gap-2 items-center">
+                  <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${getTagStyle(profile.tag).dot}`}></span>
+                  <input
+                    className={inputClass}
+                    value={profile.name}
+                    onChange={(e) => onChange(saveProfile({ ...profile, name: e.target.value }))}
+                  />
+                  <TagSelect value={profile.tag} onChange={(value) => onChange(saveProfile({ ...profile, tag: value }))} />
+                  <button
+                    onClick={() => onChange(deleteProfile(profile.id))}
+                    className="p-2 text-slate-500 hover:text-red-400 transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+                <p className="text-[11px] font-mono text-slate-500 break-all pl-5">
+                  {profile.url} · {profile.credentialType === 'none' ? 'no credential' : profile.credentialType}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConnectionManager;
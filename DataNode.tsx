@@ -1,23 +1,57 @@
-import React, { useState } from 'react';
-import { ChevronRight, ChevronDown, Edit2, Save, X, Trash2, Plus, Copy, Check, Link, MoreHorizontal } from 'lucide-react';
-import { FirebaseValue, NodeProps } from '../types';
-import { writeData, deleteData } from '../services/firebaseService';
+import React, { useState, useEffect, useRef } from 'react';
+import { ChevronRight, ChevronDown, Edit2, Save, X, Trash2, Plus, Copy, Check, Link, MoreHorizontal, Loader2, Filter, Download, Crosshair, TextCursorInput, FolderInput, CopyPlus, AlertCircle } from 'lucide-react';
+import { FirebaseValue, NodeProps, WriteOperation } from '../types';
+import { readData, readVersioned, generatePushId, VersionedValue } from '../services/firebaseService';
+import { isUnloaded, hasUnloaded } from '../services/treeUtils';
+import { ValueDraft, toDraft, emptyDraft, parseDraft, describeTimestamp } from '../services/valueService';
+import { RelocateMode, RELOCATE_LABELS, resolveTarget, validateRelocation, prepareRelocation } from '../services/relocateService';
+import { MAX_ATOMIC_BYTES } from '../services/mutationService';
+import ValueEditor from './ValueEditor';
 
-const DataNode: React.FC<NodeProps> = ({ path, name, value, dbUrl, onRefresh, depth = 0 }) => {
-  const [expanded, setExpanded] = useState<boolean>(depth < 1); 
+// A single tree row. Children are laid out by TreeView, which owns expansion and windowing.
+const DataNode: React.FC<NodeProps> = ({ path, name, value, dbUrl, onRefresh, onWrite, expanded, onToggle, loadingChildren = false, focused = false, highlighted = false, onQuery, onExport, onFocus, draggable = false, selected = false, selecting = false, onSelect, depth = 0 }) => {
   const [isEditing, setIsEditing] = useState<boolean>(false);
   const [isAdding, setIsAdding] = useState<boolean>(false);
   const [newKey, setNewKey] = useState('');
-  const [newValue, setNewValue] = useState('');
+  // custom: typed key, auto: push ID generated here, server: POST and let Firebase pick the key
+  const [keyMode, setKeyMode] = useState<'custom' | 'auto' | 'server'>('custom');
+  const [newValue, setNewValue] = useState<ValueDraft>(emptyDraft());
   
-  const [editValue, setEditValue] = useState<string>('');
+  const [editValue, setEditValue] = useState<ValueDraft>(emptyDraft());
+  const [relocateMode, setRelocateMode] = useState<RelocateMode | null>(null);
+  const [relocateInput, setRelocateInput] = useState('');
+  const [relocateError, setRelocateError] = useState<string | null>(null);
   const [isHovered, setIsHovered] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(false);
   const [copied, setCopied] = useState<boolean>(false);
   const [copiedPath, setCopiedPath] = useState<boolean>(false);
+  const [flash, setFlash] = useState<boolean>(false);
+  const previousValue = useRef<FirebaseValue>(value);
+  // Server value and ETag when editing started, so a save can't silently clobber someone else's
+  const editBase = useRef<VersionedValue | null>(null);
 
-  const isObject = value !== null && typeof value === 'object';
+  const unloaded = isUnloaded(value);
+  const isObject = value !== null && typeof value === 'object' && !unloaded;
+  const isExpandable = isObject || unloaded;
   const displayPath = path ? `${path}/${name}` : name;
+  const timestampLabel = describeTimestamp(value);
+
+  // Unloaded levels are fetched in full before being copied
+  const resolveValue = async (): Promise<FirebaseValue> => {
+    if (!hasUnloaded(value)) return value;
+    return await readData(dbUrl, displayPath);
+  };
+
+  // Highlight values that change in place (live sync or refresh)
+  useEffect(() => {
+    const changed = previousValue.current !== value && !isUnloaded(previousValue.current) && (!isObject || typeof previousValue.current !== 'object');
+    previousValue.current = value;
+    if (!changed) return;
+
+    setFlash(true);
+    const timeoutId = setTimeout(() => setFlash(false), 1200);
+    return () => clearTimeout(timeoutId);
+  }, [value]);
   
   // Brighter, high-contrast colors
   const getValueColor = (val: FirebaseValue) => {
@@ -28,12 +62,17 @@ const DataNode: React.FC<NodeProps> = ({ path, name, value, dbUrl, onRefresh, de
     return 'text-slate-100';
   };
 
-  const handleCopy = (e: React.MouseEvent) => {
+  const handleCopy = async (e: React.MouseEvent) => {
     e.stopPropagation();
-    const textToCopy = isObject ? JSON.stringify(value, null, 2) : String(value);
-    navigator.clipboard.writeText(textToCopy);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
+    try {
+      const fullValue = await resolveValue();
+      const textToCopy = fullValue !== null && typeof fullValue === 'object' ? JSON.stringify(fullValue, null, 2) : String(fullValue);
+      await navigator.clipboard.writeText(textToCopy);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error: any) {
+      alert(error.message || 'Failed to copy value.');
+    }
   };
 
   const handleCopyPath = (e: React.MouseEvent) => {
@@ -43,82 +82,101 @@ const DataNode: React.FC<NodeProps> = ({ path, name, value, dbUrl, onRefresh, de
     setTimeout(() => setCopiedPath(false), 2000);
   };
 
-  const handleEditStart = (e: React.MouseEvent) => {
+  const handleEditStart = async (e: React.MouseEvent) => {
     e.stopPropagation();
-    setIsEditing(true);
-    setEditValue(isObject ? JSON.stringify(value, null, 2) : String(value));
+    try {
+      editBase.current = await readVersioned(dbUrl, displayPath);
+      setIsEditing(true);
+      setEditValue(toDraft(editBase.current.value));
+    } catch (error: any) {
+      alert(error.message || 'Failed to load value.');
+    }
   };
 
-  const handleSave = async (e: React.MouseEvent) => {
-    e.stopPropagation();
+  const handleSave = async () => {
+    // The editor already shows the problem inline
+    const parsed = parseDraft(editValue);
+    if (parsed.error) return;
+
     setLoading(true);
     try {
-      let parsedValue: any = editValue;
-      
-      // Smart parsing
-      if (editValue === 'true') parsedValue = true;
-      else if (editValue === 'false') parsedValue = false;
-      else if (editValue === 'null') parsedValue = null;
-      else if (!isNaN(Number(editValue)) && editValue.trim() !== '') parsedValue = Number(editValue);
-      else {
-        try {
-          parsedValue = JSON.parse(editValue);
-        } catch {
-          parsedValue = editValue;
-        }
-      }
-
-      await writeData(dbUrl, displayPath, parsedValue);
+      const base = editBase.current;
+      if (!await onWrite([{ type: 'SET', path: displayPath, data: parsed.value, etag: base?.etag || undefined, base: base?.value }], `Edit ${displayPath}`)) return;
       setIsEditing(false);
       onRefresh();
-    } catch (error) {
-      alert('Failed to save data. Check your format.');
+    } catch (error: any) {
+      alert(error.message || 'Failed to save data.');
     } finally {
       setLoading(false);
     }
   };
 
   const handleAddChild = async () => {
-    if (!newKey.trim()) return;
+    const parsed = parseDraft(newValue);
+    if ((keyMode === 'custom' && !newKey.trim()) || parsed.error) return;
     setLoading(true);
     try {
-       const childPath = displayPath ? `${displayPath}/${newKey}` : newKey;
-       
-       let parsedValue: any = newValue;
-       if (newValue === 'true') parsedValue = true;
-       else if (newValue === 'false') parsedValue = false;
-       else if (!isNaN(Number(newValue)) && newValue.trim() !== '') parsedValue = Number(newValue);
-       
-       // Attempt JSON parse for values like {"a":1}
-       if (newValue.startsWith('{') || newValue.startsWith('[')) {
-          try { parsedValue = JSON.parse(newValue); } catch {}
-       }
+       const key = keyMode === 'auto' ? generatePushId() : newKey;
+       const childPath = displayPath ? `${displayPath}/${key}` : key;
+       const operation: WriteOperation = keyMode === 'server'
+         ? { type: 'PUSH', path: displayPath, data: parsed.value }
+         : { type: 'SET', path: childPath, data: parsed.value };
 
-       await writeData(dbUrl, childPath, parsedValue);
+       if (!await onWrite([operation], keyMode === 'server' ? `Push to /${displayPath}` : `Add ${childPath}`)) return;
        setIsAdding(false);
        setNewKey('');
-       setNewValue('');
-       if (!expanded) setExpanded(true);
+       setNewValue(emptyDraft());
+       if (!expanded) onToggle(displayPath, true);
        onRefresh();
-    } catch(error) {
-      alert('Failed to add data.');
+    } catch(error: any) {
+      alert(error.message || 'Failed to add data.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRelocateStart = (mode: RelocateMode) => {
+    setRelocateMode(mode);
+    setRelocateInput(mode === 'rename' ? name : mode === 'move' ? displayPath : `${displayPath}_copy`);
+    setRelocateError(null);
+  };
+
+  const handleRelocate = async () => {
+    if (!relocateMode) return;
+    setLoading(true);
+    setRelocateError(null);
+    try {
+      const operations = await prepareRelocation(dbUrl, relocateMode, displayPath, relocateInput);
+      const target = resolveTarget(relocateMode, displayPath, relocateInput);
+      if (!await onWrite(operations, `${RELOCATE_LABELS[relocateMode]} /${displayPath} to /${target}`)) return;
+      setRelocateMode(null);
+      onRefresh();
+    } catch (error: any) {
+      setRelocateError(error.message || 'Failed to relocate node.');
     } finally {
       setLoading(false);
     }
   };
 
+  // Live check and the paths the relocation will touch, shown before anything is read
+  const relocateProblem = relocateMode ? validateRelocation(relocateMode, displayPath, relocateInput) : null;
+  const relocateTarget = relocateMode ? resolveTarget(relocateMode, displayPath, relocateInput) : '';
+
+  // TreeView tracks the drag and handles the drop; the path also goes along as text for other drop targets
+  const handleDragStart = (e: React.DragEvent) => {
+    e.dataTransfer.setData('text/plain', displayPath);
+    e.dataTransfer.effectAllowed = 'copyMove';
+  };
+
   const handleDelete = async (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (confirm(`⚠️ Are you sure you want to delete "${name}"? This cannot be undone.`)) {
-      setLoading(true);
-      try {
-        await deleteData(dbUrl, displayPath);
-        onRefresh();
-      } catch (error) {
-        alert('Failed to delete node.');
-      } finally {
-        setLoading(false);
-      }
+    setLoading(true);
+    try {
+      if (await onWrite([{ type: 'DELETE', path: displayPath }], `Delete ${displayPath}`)) onRefresh();
+    } catch (error: any) {
+      alert(error.message || 'Failed to delete node.');
+    } finally {
+      setLoading(false);
     }
   };
 
@@ -132,17 +190,31 @@ const DataNode: React.FC<NodeProps> = ({ path, name, value, dbUrl, onRefresh, de
     >
       <div 
         className={`flex items-center py-2.5 px-2 transition-all ${
-          isEditing ? 'bg-indigo-900/30 ring-1 ring-inset ring-indigo-500/50' : ''
+          isEditing ? 'bg-indigo-900/30 ring-1 ring-inset ring-indigo-500/50' : selected ? 'bg-indigo-500/20' : flash ? 'bg-amber-400/20' : highlighted ? 'bg-yellow-400/15 ring-1 ring-inset ring-yellow-400/60' : focused ? 'bg-indigo-500/10 ring-1 ring-inset ring-indigo-400/40' : ''
         }`}
         style={{ paddingLeft }}
+        draggable={draggable && !isEditing}
+        onDragStart={handleDragStart}
       >
+        {/* Select */}
+        {onSelect && (
+          <input
+            type="checkbox"
+            checked={selected}
+            readOnly
+            onClick={(e) => { e.stopPropagation(); onSelect(displayPath, e.shiftKey); }}
+            className={`mr-2 shrink-0 accent-indigo-500 cursor-pointer ${selected || selecting || isHovered ? 'opacity-100' : 'opacity-0'}`}
+            title="Select (Shift-click for a range)"
+          />
+        )}
+
         {/* Toggle */}
-        {isObject ? (
+        {isExpandable ? (
           <button 
-            onClick={() => setExpanded(!expanded)} 
+            onClick={() => onToggle(displayPath, !expanded)} 
             className="mr-2 text-indigo-400 hover:text-white p-0.5 rounded transition-transform active:scale-90"
           >
-            {expanded ? <ChevronDown size={18} strokeWidth={3} /> : <ChevronRight size={18} strokeWidth={3} />}
+            {loadingChildren ? <Loader2 size={18} strokeWidth={3} className="animate-spin" /> : expanded ? <ChevronDown size={18} strokeWidth={3} /> : <ChevronRight size={18} strokeWidth={3} />}
           </button>
         ) : (
           <div className="w-8 flex justify-center opacity-30 mr-1">
@@ -157,8 +229,15 @@ const DataNode: React.FC<NodeProps> = ({ path, name, value, dbUrl, onRefresh, de
           {!isEditing && (
             <>
               <span className="text-slate-600 font-bold mx-1">:</span>
-              <span className={`font-mono text-sm truncate select-text ${getValueColor(value)}`}>
-                {isObject ? (
+              <span
+                className={`font-mono text-sm truncate select-text ${getValueColor(value)} ${timestampLabel ? 'underline decoration-dotted decoration-slate-500 cursor-help' : ''}`}
+                title={timestampLabel || undefined}
+              >
+                {unloaded ? (
+                  <span className="text-slate-500 text-[10px] uppercase font-bold tracking-wider bg-slate-800 px-2 py-0.5 rounded border border-dashed border-slate-700" title="Not loaded yet. Expand to fetch.">
+                    {loadingChildren ? 'Loading...' : '{ ... }'}
+                  </span>
+                ) : isObject ? (
                   <span className="text-slate-400 text-[10px] uppercase font-bold tracking-wider bg-slate-800 px-2 py-0.5 rounded border border-slate-700">
                     {Array.isArray(value) ? `Array [${value.length}]` : `Object {${Object.keys(value).length}}`}
                   </span>
@@ -171,14 +250,8 @@ const DataNode: React.FC<NodeProps> = ({ path, name, value, dbUrl, onRefresh, de
 
           {/* Edit Input */}
           {isEditing && (
-            <div className="flex-1 ml-2">
-               <input
-                 className="w-full bg-slate-950 border border-indigo-500 rounded px-2 py-1 text-sm font-mono text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 shadow-lg"
-                 value={editValue}
-                 onChange={(e) => setEditValue(e.target.value)}
-                 autoFocus
-                 onKeyDown={(e) => { if (e.key === 'Enter') handleSave(e as any); if (e.key === 'Escape') setIsEditing(false); }}
-               />
+            <div className="flex-1 ml-2 min-w-0">
+               <ValueEditor draft={editValue} onChange={setEditValue} onSubmit={handleSave} onCancel={() => setIsEditing(false)} autoFocus />
             </div>
           )}
         </div>
@@ -187,7 +260,7 @@ const DataNode: React.FC<NodeProps> = ({ path, name, value, dbUrl, onRefresh, de
         <div className={`flex items-center gap-1 ml-4 ${isHovered || isEditing ? 'opacity-100' : 'opacity-60 md:opacity-0 md:group-hover:opacity-100'} transition-opacity duration-200`}>
            {isEditing ? (
              <>
-               <button onClick={handleSave} className="p-1.5 bg-emerald-600 text-white rounded shadow hover:bg-emerald-500" title="Save (Enter)">
+               <button onClick={(e) => { e.stopPropagation(); handleSave(); }} disabled={!!parseDraft(editValue).error} className="p-1.5 bg-emerald-600 text-white rounded shadow hover:bg-emerald-500 disabled:opacity-50" title="Save (Enter, Ctrl+Enter for JSON)">
                  <Check size={14} strokeWidth={3} />
                </button>
                <button onClick={() => setIsEditing(false)} className="p-1.5 bg-slate-700 text-slate-300 rounded hover:bg-slate-600" title="Cancel (Esc)">
@@ -196,14 +269,41 @@ const DataNode: React.FC<NodeProps> = ({ path, name, value, dbUrl, onRefresh, de
              </>
            ) : (
              <>
-               {isObject && (
+               {isExpandable && (
                  <button 
-                   onClick={() => { setExpanded(true); setIsAdding(true); }}
+                   onClick={() => { onToggle(displayPath, true); setIsAdding(true); }}
                    className="p-1.5 text-indigo-300 hover:text-white hover:bg-indigo-600 rounded transition-colors" 
                    title="Add Child"
                  >
                    <Plus size={16} />
                  </button>
+               )}
+               {isExpandable && onFocus && (
+                 <button 
+                   onClick={(e) => { e.stopPropagation(); onFocus(displayPath); }}
+                   className="p-1.5 text-slate-400 hover:text-indigo-300 hover:bg-slate-700 rounded transition-colors" 
+                   title="Focus on this subtree"
+                 >
+                   <Crosshair size={16} />
+                 </button>
+               )}
+               {isExpandable && onQuery && (
+                 <button 
+                   onClick={(e) => { e.stopPropagation(); onQuery(displayPath); }}
+                   className="p-1.5 text-slate-400 hover:text-amber-300 hover:bg-slate-700 rounded transition-colors" 
+                   title="Query Children"
+                 >
+                   <Filter size={16} />
+                 </button>
+               )}
+               {isExpandable && onExport && (
+                 <button 
+                   onClick={(e) => { e.stopPropagation(); onExport(displayPath); }}
+                   className="p-1.5 text-slate-400 hover:text-cyan-300 hover:bg-slate-700 rounded transition-colors" 
+                   title="Export"
+                 >
+                   <Download size={16} />
+                 </button>
                )}
                 <button 
                  onClick={handleCopyPath} 
@@ -226,6 +326,27 @@ const DataNode: React.FC<NodeProps> = ({ path, name, value, dbUrl, onRefresh, de
                >
                  <Edit2 size={16} />
                </button>
+               <button 
+                 onClick={(e) => { e.stopPropagation(); handleRelocateStart('rename'); }}
+                 className="p-1.5 text-slate-400 hover:text-blue-400 hover:bg-slate-700 rounded transition-colors"
+                 title="Rename"
+               >
+                 <TextCursorInput size={16} />
+               </button>
+               <button 
+                 onClick={(e) => { e.stopPropagation(); handleRelocateStart('move'); }}
+                 className="p-1.5 text-slate-400 hover:text-blue-400 hover:bg-slate-700 rounded transition-colors"
+                 title="Move to path"
+               >
+                 <FolderInput size={16} />
+               </button>
+               <button 
+                 onClick={(e) => { e.stopPropagation(); handleRelocateStart('duplicate'); }}
+                 className="p-1.5 text-slate-400 hover:text-blue-400 hover:bg-slate-700 rounded transition-colors"
+                 title="Duplicate"
+               >
+                 <CopyPlus size={16} />
+               </button>
                <button 
                  onClick={handleDelete}
                  className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded transition-colors"
@@ -238,32 +359,83 @@ const DataNode: React.FC<NodeProps> = ({ path, name, value, dbUrl, onRefresh, de
         </div>
       </div>
 
+      {/* Rename / Move / Duplicate Form */}
+      {relocateMode && (
+        <div className="bg-gradient-to-r from-blue-900/40 to-slate-900 border-y border-blue-500/30 py-3 px-4 flex flex-col gap-2 animate-in slide-in-from-left-4" style={{ paddingLeft: `${(depth + 1) * 1.5}rem` }}>
+           <div className="flex items-center gap-2 text-xs font-bold text-blue-300 uppercase tracking-wider">
+             {relocateMode === 'rename' ? <TextCursorInput size={12} /> : relocateMode === 'move' ? <FolderInput size={12} /> : <CopyPlus size={12} />}
+             {RELOCATE_LABELS[relocateMode]} /{displayPath}
+           </div>
+           <div className="flex items-center gap-2">
+             <input 
+                 placeholder={relocateMode === 'rename' ? 'New key' : 'Target path, e.g. users/new_id'}
+                 className="flex-1 min-w-0 bg-slate-950 border border-slate-600 rounded-lg px-3 py-2 text-sm font-mono text-white focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none shadow-inner"
+                 value={relocateInput}
+                 onChange={e => { setRelocateInput(e.target.value); setRelocateError(null); }}
+                 onKeyDown={e => { if (e.key === 'Enter' && !relocateProblem) handleRelocate(); if (e.key === 'Escape') setRelocateMode(null); }}
+                 autoFocus
+             />
+             <button 
+               onClick={handleRelocate}
+               disabled={!!relocateProblem || loading}
+               className="bg-blue-600 hover:bg-blue-500 text-white font-semibold px-4 py-2 rounded-lg text-sm disabled:opacity-50 shadow-lg active:scale-95 transition-all flex items-center gap-2"
+             >
+               {loading && <Loader2 size={14} className="animate-spin" />} {RELOCATE_LABELS[relocateMode]}
+             </button>
+             <button 
+               onClick={() => setRelocateMode(null)}
+               className="bg-slate-700 hover:bg-slate-600 text-white font-medium px-4 py-2 rounded-lg text-sm active:scale-95 transition-all"
+             >
+               Close
+             </button>
+           </div>
+           {relocateProblem || relocateError ? (
+             <div className="text-[11px] text-red-300 flex items-center gap-1">
+               <AlertCircle size={12} className="shrink-0" /> <span className="break-all">{relocateError || relocateProblem}</span>
+             </div>
+           ) : (
+             <div className="font-mono text-[11px] text-slate-400 space-y-0.5">
+               <div><span className="text-emerald-400 font-bold">SET</span> /{relocateTarget} <span className="text-slate-500">(must not exist yet)</span></div>
+               {relocateMode !== 'duplicate' && <div><span className="text-red-400 font-bold">DELETE</span> /{displayPath}</div>}
+               {relocateMode !== 'duplicate' && <div className="text-slate-500">Both paths change in one atomic update. Nodes over {MAX_ATOMIC_BYTES / 1024} KB are refused.</div>}
+             </div>
+           )}
+        </div>
+      )}
+
       {/* Add Child Form */}
       {isAdding && (
         <div className="bg-gradient-to-r from-indigo-900/40 to-slate-900 border-y border-indigo-500/30 py-3 px-4 flex flex-col gap-3 animate-in slide-in-from-left-4" style={{ paddingLeft: `${(depth + 1) * 1.5}rem` }}>
            <div className="flex items-center gap-2 text-xs font-bold text-indigo-300 uppercase tracking-wider">
              <Plus size={12} /> Add to /{name}
            </div>
-           <div className="flex items-center gap-2">
-             <div className="flex-1 flex gap-2">
+           <div className="flex items-start gap-2">
+             <div className="flex-1 flex gap-2 items-start min-w-0">
+                <select
+                    value={keyMode}
+                    onChange={e => setKeyMode(e.target.value as 'custom' | 'auto' | 'server')}
+                    className="shrink-0 bg-slate-950 border border-slate-600 rounded-lg px-2 py-2 text-xs text-white focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none"
+                    title="How the new child's key is chosen"
+                >
+                    <option value="custom">Key</option>
+                    <option value="auto">Auto ID</option>
+                    <option value="server">Server ID (POST)</option>
+                </select>
                 <input 
-                    placeholder="Key Name" 
-                    className="flex-1 bg-slate-950 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none shadow-inner"
-                    value={newKey}
+                    placeholder={keyMode === 'custom' ? 'Key Name' : keyMode === 'auto' ? 'Push ID generated on add' : 'Assigned by the server'}
+                    className="flex-1 min-w-0 bg-slate-950 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none shadow-inner disabled:opacity-50"
+                    value={keyMode === 'custom' ? newKey : ''}
                     onChange={e => setNewKey(e.target.value)}
+                    disabled={keyMode !== 'custom'}
                     autoFocus
                 />
-                <input 
-                    placeholder="Value (String, Number, JSON)" 
-                    className="flex-[2] bg-slate-950 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none shadow-inner"
-                    value={newValue}
-                    onChange={e => setNewValue(e.target.value)}
-                    onKeyDown={(e) => { if (e.key === 'Enter') handleAddChild(); }}
-                />
+                <div className="flex-[2] min-w-0">
+                  <ValueEditor draft={newValue} onChange={setNewValue} onSubmit={handleAddChild} onCancel={() => setIsAdding(false)} />
+                </div>
              </div>
              <button 
                onClick={handleAddChild}
-               disabled={!newKey}
+               disabled={(keyMode === 'custom' && !newKey) || !!parseDraft(newValue).error}
                className="bg-indigo-600 hover:bg-indigo-500 text-white font-semibold px-4 py-2 rounded-lg text-sm disabled:opacity-50 shadow-lg shadow-indigo-900/20 active:scale-95 transition-all"
              >
                Add
@@ -277,23 +449,6 @@ const DataNode: React.FC<NodeProps> = ({ path, name, value, dbUrl, onRefresh, de
            </div>
         </div>
       )}
-
-      {/* Children */}
-      {isObject && expanded && value && (
-        <div className="w-full">
-          {Object.entries(value).map(([childKey, childValue]) => (
-            <DataNode
-              key={childKey}
-              name={childKey}
-              path={displayPath}
-              value={childValue}
-              dbUrl={dbUrl}
-              onRefresh={onRefresh}
-              depth={depth + 1}
-            />
-          ))}
-        </div>
-      )}
     </div>
   );
 };
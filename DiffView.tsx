@@ -0,0 +1,57 @@
+import React from 'react';
+import { DiffEntry, summarizeDiff } from '../services/diffService';
+
+interface DiffViewProps {
+  entries: DiffEntry[];
+  maxItems?: number;
+  emptyMessage?: string;
+}
+
+const kindStyles: Record<DiffEntry['kind'], string> = {
+  added: 'bg-emerald-900/50 text-emerald-400 border-emerald-500/30',
+  removed: 'bg-red-900/50 text-red-400 border-red-500/30',
+  changed: 'bg-blue-900/50 text-blue-400 border-blue-500/30',
+};
+
+const formatValue = (value: any): string => {
+  const text = JSON.stringify(value);
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+};
+
+// Added, removed and changed paths with their old and new values
+const DiffView: React.FC<DiffViewProps> = ({ entries, maxItems = 200, emptyMessage = 'Nothing would change.' }) => {
+  const summary = summarizeDiff(entries);
+
+  return (
+    <div className="bg-slate-950 rounded-xl border border-slate-800 p-4 font-mono text-xs">
+      <div className="flex gap-4 mb-3 font-bold uppercase tracking-wider">
+        <span className="text-emerald-400">+{summary.added} added</span>
+        <span className="text-blue-400">~{summary.changed} changed</span>
+        <span className="text-red-400">-{summary.removed} removed</span>
+      </div>
+      {entries.length === 0 ? (
+        <p className="text-slate-500">{emptyMessage}</p>
+      ) : (
+        <div className="space-y-2 max-h-[260px] overflow-auto">
+          {entries.slice(0, maxItems).map(entry => (
+            <div key={`${entry.kind}:${entry.path}`} className="flex gap-2 items-start">
+              <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold border shrink-0 ${kindStyles[entry.kind]}`}>{entry.kind.toUpperCase()}</span>
+              <div className="min-w-0 flex-1">
+                <div className="text-indigo-300 break-all">/{entry.path}</div>
+                {entry.kind !== 'added' && (
+                  <div className="text-red-300/80 break-all"><span className="select-none text-slate-600">- </span>{formatValue(entry.before)}</div>
+                )}
+                {entry.kind !== 'removed' && (
+                  <div className="text-emerald-300/80 break-all"><span className="select-none text-slate-600">+ </span>{formatValue(entry.after)}</div>
+                )}
+              </div>
+            </div>
+          ))}
+          {entries.length > maxItems && <p className="text-slate-500 pt-1">...and {entries.length - maxItems} more</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiffView;
@@ -0,0 +1,118 @@
+import React, { useState, useRef } from 'react';
+import { Download, X, RefreshCw, AlertCircle } from 'lucide-react';
+import { getDatabaseLabel } from '../services/firebaseService';
+import { EXPORT_FORMATS, ExportFormat, ExportProgress, fetchInChunks, serialize, buildFilename, downloadFile } from '../services/exportService';
+
+interface ExportPanelProps {
+  dbUrl: string;
+  path: string;
+  onClose: () => void;
+  onDone: (message: string) => void;
+}
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ dbUrl, path, onClose, onDone }) => {
+  const [format, setFormat] = useState<ExportFormat>('json-pretty');
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cancelled = useRef(false);
+
+  const handleExport = async () => {
+    cancelled.current = false;
+    setRunning(true);
+    setError(null);
+    setProgress(null);
+    try {
+      const value = await fetchInChunks(dbUrl, path, setProgress, () => cancelled.current);
+      const selected = EXPORT_FORMATS.find(f => f.id === format)!;
+      const filename = buildFilename(getDatabaseLabel(dbUrl).split(' ')[0], path, format);
+      downloadFile(filename, serialize(value, format), selected.mime);
+      onDone(`Exported ${filename}`);
+    } catch (err: any) {
+      setError(err.message || "Export failed");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleClose = () => {
+    cancelled.current = true;
+    onClose();
+  };
+
+  const percent = progress && progress.total ? Math.round((progress.loaded / progress.total) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-md animate-in fade-in duration-200 px-4">
+      <div className="bg-slate-900 border border-cyan-500/40 rounded-2xl shadow-2xl w-full max-w-md overflow-hidden relative">
+        <div className="absolute top-0 w-full h-1 bg-gradient-to-r from-cyan-500 to-indigo-500"></div>
+
+        <div className="p-6 space-y-5">
+          <div className="flex justify-between items-start">
+            <div className="flex items-center gap-3">
+              <div className="bg-cyan-500/20 p-2 rounded-lg">
+                <Download size={24} className="text-cyan-400" />
+              </div>
+              <div>
+                <h3 className="text-xl font-bold text-white">Export</h3>
+                <p className="text-xs text-slate-400 font-mono">/{path}</p>
+              </div>
+            </div>
+            <button onClick={handleClose} className="text-slate-500 hover:text-white transition-colors bg-slate-800 p-1 rounded-md">
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-cyan-400 uppercase tracking-wider block">Format</label>
+            {EXPORT_FORMATS.map(option => (
+              <label key={option.id} className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${format === option.id ? 'border-cyan-500/50 bg-cyan-500/10 text-white' : 'border-slate-700 text-slate-300 hover:bg-slate-800'}`}>
+                <input type="radio" name="format" checked={format === option.id} onChange={() => setFormat(option.id)} disabled={running} />
+                <span className="text-sm">{option.label}</span>
+              </label>
+            ))}
+            {format === 'csv' && (
+              <p className="text-[11px] text-slate-500">Each child of this node becomes a row; nested fields become dotted columns like <code>profile.age</code>.</p>
+            )}
+          </div>
+
+          {progress && (
+            <div>
+              <div className="flex justify-between text-xs text-slate-400 mb-1">
+                <span>{progress.loaded} / {progress.total} children</span>
+                <span>{percent}%</span>
+              </div>
+              <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-gradient-to-r from-cyan-500 to-indigo-500 transition-all" style={{ width: `${percent}%` }} />
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-900/20 border border-red-500/30 rounded-lg text-red-200 text-sm flex items-start gap-2">
+              <AlertCircle size={16} className="mt-0.5 shrink-0 text-red-400" /> {error}
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              onClick={running ? () => { cancelled.current = true; } : handleClose}
+              className="flex-1 py-3 bg-slate-800 hover:bg-slate-700 text-slate-300 font-bold rounded-xl transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={running}
+              className="flex-[2] py-3 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded-xl shadow-lg transition-colors flex justify-center items-center gap-2 disabled:opacity-60"
+            >
+              {running ? <RefreshCw size={18} className="animate-spin" /> : <Download size={18} />} {running ? 'Exporting...' : 'Download'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportPanel;
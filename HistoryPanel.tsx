@@ -0,0 +1,90 @@
+import React from 'react';
+import { History, X, Undo2, Redo2, Trash2 } from 'lucide-react';
+import { HistoryEntry } from '../services/historyService';
+import { normalizePath } from '../services/mutationService';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  busy: boolean;
+  onRevert: (entry: HistoryEntry) => void;
+  onReapply: (entry: HistoryEntry) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, busy, onRevert, onReapply, onClear, onClose }) => {
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-md animate-in fade-in duration-200 px-4">
+      <div className="bg-slate-900 border border-amber-500/40 rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden relative flex flex-col max-h-[90vh]">
+        <div className="absolute top-0 w-full h-1 bg-gradient-to-r from-amber-500 to-orange-500"></div>
+
+        <div className="p-6 pb-4 flex justify-between items-start">
+          <div className="flex items-center gap-3">
+            <div className="bg-amber-500/20 p-2 rounded-lg">
+              <History size={24} className="text-amber-400" />
+            </div>
+            <div>
+              <h3 className="text-xl font-bold text-white">History</h3>
+              <p className="text-xs text-slate-400">Ctrl+Z to undo, Ctrl+Shift+Z to redo</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {entries.length > 0 && (
+              <button
+                onClick={onClear}
+                disabled={busy}
+                className="flex items-center gap-1 px-2 py-1 text-xs text-slate-400 hover:text-red-300 bg-slate-800 rounded-md transition-colors disabled:opacity-50"
+              >
+                <Trash2 size={12} /> Clear
+              </button>
+            )}
+            <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors bg-slate-800 p-1 rounded-md">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="px-6 pb-6 overflow-y-auto space-y-2">
+          {entries.length === 0 && (
+            <p className="text-sm text-slate-500 text-center py-8">No writes recorded for this database yet.</p>
+          )}
+          {entries.map(entry => (
+            <div key={entry.id} className={`p-3 rounded-lg border flex items-start gap-3 ${entry.undone ? 'border-slate-800 bg-slate-900 opacity-60' : 'border-slate-700 bg-slate-800/50'}`}>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className={`text-sm font-medium truncate ${entry.undone ? 'text-slate-400 line-through' : 'text-white'}`}>{entry.title}</span>
+                  {entry.undone && <span className="text-[10px] uppercase font-bold text-amber-400">Undone</span>}
+                </div>
+                <div className="text-[11px] text-slate-500">{new Date(entry.timestamp).toLocaleString()}</div>
+                <div className="mt-1 font-mono text-[11px] text-indigo-300 break-all">
+                  {entry.operations.map((operation, idx) => (
+                    <div key={idx}>{operation.type} /{normalizePath(operation.path)}</div>
+                  ))}
+                </div>
+              </div>
+              {entry.undone ? (
+                <button
+                  onClick={() => onReapply(entry)}
+                  disabled={busy}
+                  className="shrink-0 flex items-center gap-1 px-3 py-1.5 text-xs font-bold text-cyan-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  <Redo2 size={14} /> Reapply
+                </button>
+              ) : (
+                <button
+                  onClick={() => onRevert(entry)}
+                  disabled={busy}
+                  className="shrink-0 flex items-center gap-1 px-3 py-1.5 text-xs font-bold text-amber-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  <Undo2 size={14} /> Revert
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { Upload, X, RefreshCw, AlertCircle, Eye, Play, Code } from 'lucide-react';
+import { fetchInChunks } from '../services/exportService';
+import { IMPORT_STRATEGIES, ImportStrategy, parseImportText, previewImport, buildImportOperations } from '../services/importService';
+import { readVersioned } from '../services/firebaseService';
+import { OperationStatus } from '../services/mutationService';
+import { diffValues, DiffEntry } from '../services/diffService';
+import { WriteOperation } from '../types';
+import DiffView from './DiffView';
+
+interface ImportPanelProps {
+  dbUrl: string;
+  path: string;
+  onClose: () => void;
+  onDone: (message: string) => void;
+  // The shared write pipeline: review, prod and protected-path checks, conflicts, journal, rollback
+  onWrite: (operations: WriteOperation[], title: string, onStatus: (index: number, status: OperationStatus) => void) => Promise<boolean>;
+}
+
+const ImportPanel: React.FC<ImportPanelProps> = ({ dbUrl, path, onClose, onDone, onWrite }) => {
+  const [targetPath, setTargetPath] = useState(path);
+  const [strategy, setStrategy] = useState<ImportStrategy>('merge');
+  const [fileName, setFileName] = useState('');
+  const [payload, setPayload] = useState<any>(undefined);
+
+  const [diff, setDiff] = useState<DiffEntry[] | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const cleanTarget = targetPath.trim().replace(/^\/+|\/+$/g, '');
+
+  // Any change to the inputs invalidates the last dry run
+  const resetPreview = () => setDiff(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    resetPreview();
+    setError(null);
+    setFileName(file.name);
+    try {
+      setPayload(parseImportText(await file.text(), file.name));
+    } catch (err: any) {
+      setPayload(undefined);
+      setError(err.message);
+    }
+  };
+
+  const handleDryRun = async () => {
+    if (payload === undefined) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const existing = await fetchInChunks(dbUrl, cleanTarget, ({ loaded, total }) => setStatus(`Reading current data... ${loaded}/${total}`));
+      setDiff(diffValues(existing, previewImport(existing, payload, strategy), cleanTarget));
+    } catch (err: any) {
+      setError(err.message || "Dry run failed");
+    } finally {
+      setStatus(null);
+      setBusy(false);
+    }
+  };
+
+  // The dry run is only a preview: the writes are built from a fresh read, so nothing that
+  // changed since then is overwritten or kept by mistake
+  const handleImport = async () => {
+    if (payload === undefined || diff === null) return;
+    setBusy(true);
+    setError(null);
+    try {
+      setStatus('Reading current data...');
+      const operations = buildImportOperations(await readVersioned(dbUrl, cleanTarget), payload, strategy, cleanTarget);
+      if (operations.length === 0) {
+        setDiff([]);
+        return;
+      }
+
+      setStatus(null);
+      let done = 0;
+      const onStatus = (_: number, state: OperationStatus) => {
+        if (state === 'ok') done++;
+        setStatus(operations.length > 1 ? `Writing batch ${done}/${operations.length}...` : 'Writing...');
+      };
+      if (!await onWrite(operations, `Import ${fileName} into /${cleanTarget} (${strategy})`, onStatus)) return;
+      onDone(`Imported ${fileName} into /${cleanTarget} (${operations.length} request${operations.length === 1 ? '' : 's'})`);
+    } catch (err: any) {
+      setError(`Import stopped: ${err.message}`);
+    } finally {
+      setStatus(null);
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-md animate-in fade-in duration-200 px-4">
+      <div className="bg-slate-900 border border-emerald-500/40 rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden relative flex flex-col max-h-[90vh]">
+        <div className="absolute top-0 w-full h-1 bg-gradient-to-r from-emerald-500 to-cyan-500"></div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div className="flex justify-between items-start">
+            <div className="flex items-center gap-3">
+              <div className="bg-emerald-500/20 p-2 rounded-lg">
+                <Upload size={24} className="text-emerald-400" />
+              </div>
+              <div>
+                <h3 className="text-xl font-bold text-white">Import</h3>
+                <p className="text-xs text-slate-400">JSON or NDJSON file</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors bg-slate-800 p-1 rounded-md">
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="text-xs font-bold text-emerald-400 uppercase tracking-wider mb-2 block">File</label>
+              <input
+                type="file"
+                accept=".json,.ndjson,.jsonl,application/json"
+                onChange={handleFile}
+                disabled={busy}
+                className="w-full text-sm text-slate-300 file:mr-3 file:py-2 file:px-3 file:rounded-lg file:border-0 file:bg-slate-700 file:text-white hover:file:bg-slate-600"
+              />
+            </div>
+            <div>
+              <label className="text-xs font-bold text-emerald-400 uppercase tracking-wider mb-2 block">Target Path</label>
+              <div className="relative">
+                <input
+                  className="w-full bg-slate-950 border border-slate-700 rounded-lg py-2 px-3 pl-9 text-white text-sm focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none font-mono placeholder-slate-600"
+                  placeholder="/ (root)"
+                  value={targetPath}
+                  onChange={(e) => { setTargetPath(e.target.value); resetPreview(); }}
+                  disabled={busy}
+                />
+                <div className="absolute left-3 top-2.5 text-slate-600"><Code size={14} /></div>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-emerald-400 uppercase tracking-wider block">Strategy</label>
+            {IMPORT_STRATEGIES.map(option => (
+              <label key={option.id} className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${strategy === option.id ? 'border-emerald-500/50 bg-emerald-500/10' : 'border-slate-700 hover:bg-slate-800'}`}>
+                <input type="radio" name="strategy" className="mt-1" checked={strategy === option.id} onChange={() => { setStrategy(option.id); resetPreview(); }} disabled={busy} />
+                <span>
+                  <span className="block text-sm text-white font-medium">{option.label}</span>
+                  <span className="block text-xs text-slate-400">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {/* Dry Run Result */}
+          {diff && <DiffView entries={diff} />}
+
+          {status && (
+            <div className="text-xs text-slate-400 flex items-center gap-2">
+              <RefreshCw size={14} className="animate-spin" /> {status}
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-900/20 border border-red-500/30 rounded-lg text-red-200 text-sm flex items-start gap-2">
+              <AlertCircle size={16} className="mt-0.5 shrink-0 text-red-400" /> <span className="break-all">{error}</span>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleDryRun}
+              disabled={busy || payload === undefined}
+              className="flex-1 py-3 bg-slate-800 hover:bg-slate-700 text-slate-200 font-bold rounded-xl transition-colors flex justify-center items-center gap-2 disabled:opacity-50"
+            >
+              <Eye size={18} /> Dry Run
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={busy || diff === null || diff.length === 0}
+              className="flex-[2] py-3 bg-emerald-600 hover:bg-emerald-500 text-white font-bold rounded-xl shadow-lg transition-colors flex justify-center items-center gap-2 disabled:opacity-50"
+              title={diff === null ? 'Run a dry run first' : ''}
+            >
+              <Play size={18} fill="currentColor" /> Import
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPanel;
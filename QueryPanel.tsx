@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import { Filter, X, Play, Copy, Check, RefreshCw, AlertCircle, ShieldAlert } from 'lucide-react';
+import { DataQuery, FirebaseValue, WriteOperation } from '../types';
+import { readQuery, getQueryUrl, parseIndexError, MissingIndex } from '../services/firebaseService';
+import { orderQueryKeys } from '../services/treeUtils';
+import TreeView from './TreeView';
+
+interface QueryPanelProps {
+  dbUrl: string;
+  path: string;
+  onClose: () => void;
+  onRefresh: () => void;
+  onWrite: (operations: WriteOperation[], title: string) => Promise<boolean>;
+}
+
+type OrderMode = '$key' | '$value' | '$priority' | 'child';
+
+// Bounds are typed as JSON: 25 is a number, "25" a string. Anything that isn't valid JSON is taken as a string.
+const parseBound = (input: string): FirebaseValue | undefined => {
+  if (!input.trim()) return undefined;
+  try {
+    return JSON.parse(input);
+  } catch {
+    return input;
+  }
+};
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded-lg py-2 px-3 text-white text-sm focus:border-amber-500 focus:ring-1 focus:ring-amber-500 outline-none font-mono placeholder-slate-600";
+const labelClass = "text-[10px] font-bold text-amber-400 uppercase tracking-wider mb-1 block";
+
+const QueryPanel: React.FC<QueryPanelProps> = ({ dbUrl, path, onClose, onRefresh, onWrite }) => {
+  const [orderMode, setOrderMode] = useState<OrderMode>('$key');
+  const [childPath, setChildPath] = useState('');
+  const [equalTo, setEqualTo] = useState('');
+  const [startAt, setStartAt] = useState('');
+  const [endAt, setEndAt] = useState('');
+  const [limitType, setLimitType] = useState<'none' | 'first' | 'last'>('first');
+  const [limit, setLimit] = useState('50');
+
+  const [results, setResults] = useState<any>(undefined);
+  const [resultOrder, setResultOrder] = useState<{ orderBy: string; keys: string[] }>({ orderBy: '$key', keys: [] });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [missingIndex, setMissingIndex] = useState<MissingIndex | null>(null);
+  const [copied, setCopied] = useState<'url' | 'rule' | null>(null);
+  const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set());
+
+  const buildQuery = (): DataQuery => {
+    const query: DataQuery = { orderBy: orderMode === 'child' ? childPath.trim() : orderMode };
+    const equal = parseBound(equalTo);
+    if (equal !== undefined) query.equalTo = equal;
+    else {
+      const start = parseBound(startAt);
+      const end = parseBound(endAt);
+      if (start !== undefined) query.startAt = start;
+      if (end !== undefined) query.endAt = end;
+    }
+    const count = parseInt(limit, 10);
+    if (limitType === 'first' && count > 0) query.limitToFirst = count;
+    if (limitType === 'last' && count > 0) query.limitToLast = count;
+    return query;
+  };
+
+  const isValid = orderMode !== 'child' || childPath.trim() !== '';
+  const queryUrl = isValid ? getQueryUrl(dbUrl, path, buildQuery()) : '';
+
+  const handleRun = async () => {
+    if (!isValid) return;
+    setLoading(true);
+    setError(null);
+    setMissingIndex(null);
+    try {
+      const query = buildQuery();
+      const found = await readQuery(dbUrl, path, query);
+      setResults(found);
+      setResultOrder({ orderBy: query.orderBy, keys: orderQueryKeys(found, query.orderBy) });
+      setExpandedPaths(new Set());
+    } catch (err: any) {
+      setResults(undefined);
+      setError(err.message || "Query failed");
+      setMissingIndex(parseIndexError(err.message || ''));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopy = async (text: string, what: 'url' | 'rule') => {
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch (err: any) {
+      setCopied(null);
+      setError(`Could not copy to the clipboard: ${err.message || 'permission denied'}`);
+      return;
+    }
+    setCopied(what);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  const handleToggle = (target: string, expanded: boolean) => {
+    setExpandedPaths(prev => {
+      const next = new Set(prev);
+      if (expanded) next.add(target);
+      else next.delete(target);
+      return next;
+    });
+  };
+
+  const resultCount = results !== null && typeof results === 'object' ? Object.keys(results).length : 0;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-md animate-in fade-in duration-200 px-4">
+      <div className="bg-slate-900 border border-amber-500/40 rounded-2xl shadow-2xl w-full max-w-4xl overflow-hidden relative flex flex-col max-h-[90vh]">
+        <div className="absolute top-0 w-full h-1 bg-gradient-to-r from-amber-500 to-orange-500"></div>
+
+        <div className="p-6 flex flex-col gap-4 overflow-y-auto">
+          <div className="flex justify-between items-start">
+            <div className="flex items-center gap-3">
+              <div className="bg-amber-500/20 p-2 rounded-lg">
+                <Filter size={24} className="text-amber-400" />
+              </div>
+              <div>
+                <h3 className="text-xl font-bold text-white">Query</h3>
+                <p className="text-xs text-slate-400 font-mono">/{path}</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors bg-slate-800 p-1 rounded-md">
+              <X size={20} />
+            </button>
+          </div>
+
+          {/* Query Form */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div>
+              <label className={labelClass}>Order By</label>
+              <select className={inputClass} value={orderMode} onChange={(e) => setOrderMode(e.target.value as OrderMode)}>
+                <option value="$key">$key</option>
+                <option value="$value">$value</option>
+                <option value="$priority">$priority</option>
+                <option value="child">Child path...</option>
+              </select>
+            </div>
+            {orderMode === 'child' && (
+              <div>
+                <label className={labelClass}>Child Path</label>
+                <input className={inputClass} placeholder="e.g. profile/age" value={childPath} onChange={(e) => setChildPath(e.target.value)} />
+              </div>
+            )}
+            <div>
+              <label className={labelClass}>Equal To</label>
+              <input className={inputClass} placeholder='e.g. "admin" or 42' value={equalTo} onChange={(e) => setEqualTo(e.target.value)} />
+            </div>
+            <div>
+              <label className={labelClass}>Start At</label>
+              <input className={inputClass} value={startAt} onChange={(e) => setStartAt(e.target.value)} disabled={!!equalTo.trim()} />
+            </div>
+            <div>
+              <label className={labelClass}>End At</label>
+              <input className={inputClass} value={endAt} onChange={(e) => setEndAt(e.target.value)} disabled={!!equalTo.trim()} />
+            </div>
+            <div>
+              <label className={labelClass}>Limit</label>
+              <select className={inputClass} value={limitType} onChange={(e) => setLimitType(e.target.value as 'none' | 'first' | 'last')}>
+                <option value="none">No limit</option>
+                <option value="first">limitToFirst</option>
+                <option value="last">limitToLast</option>
+              </select>
+            </div>
+            {limitType !== 'none' && (
+              <div>
+                <label className={labelClass}>Count</label>
+                <input type="number" min={1} className={inputClass} value={limit} onChange={(e) => setLimit(e.target.value)} />
+              </div>
+            )}
+          </div>
+
+          {/* Generated URL */}
+          <div className="flex items-center gap-2 bg-slate-950 border border-slate-800 rounded-lg p-2">
+            <code className="flex-1 text-xs text-slate-400 font-mono break-all select-all">{queryUrl || 'Enter a child path to order by.'}</code>
+            <button
+              onClick={() => handleCopy(queryUrl, 'url')}
+              disabled={!queryUrl}
+              className={`p-1.5 rounded transition-colors ${copied === 'url' ? 'text-emerald-400 bg-emerald-400/10' : 'text-slate-400 hover:text-white hover:bg-slate-700'}`}
+              title="Copy REST URL"
+            >
+              {copied === 'url' ? <Check size={16} /> : <Copy size={16} />}
+            </button>
+            <button
+              onClick={handleRun}
+              disabled={!isValid || loading}
+              className="flex items-center gap-2 px-4 py-1.5 bg-amber-600 hover:bg-amber-500 text-white rounded-lg text-sm font-bold shadow-lg transition-colors disabled:opacity-50"
+            >
+              {loading ? <RefreshCw size={14} className="animate-spin" /> : <Play size={14} fill="currentColor" />} Run
+            </button>
+          </div>
+
+          {/* Errors */}
+          {error && (
+            <div className="p-4 bg-red-900/20 border border-red-500/30 rounded-lg text-red-200 text-sm flex flex-col gap-3">
+              <div className="flex items-start gap-3">
+                <AlertCircle size={18} className="mt-0.5 shrink-0 text-red-400" />
+                <span className="leading-relaxed break-all">{error}</span>
+              </div>
+              {missingIndex && (
+                <div className="bg-slate-950 border border-slate-800 rounded-lg p-3">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-xs font-bold text-amber-300 uppercase tracking-wider flex items-center gap-2">
+                      <ShieldAlert size={14} /> Add this index to your rules
+                    </span>
+                    <button
+                      onClick={() => handleCopy(missingIndex.snippet, 'rule')}
+                      className={`p-1.5 rounded transition-colors ${copied === 'rule' ? 'text-emerald-400 bg-emerald-400/10' : 'text-slate-400 hover:text-white hover:bg-slate-700'}`}
+                      title="Copy Rule"
+                    >
+                      {copied === 'rule' ? <Check size={14} /> : <Copy size={14} />}
+                    </button>
+                  </div>
+                  <pre className="text-xs text-slate-300 font-mono whitespace-pre overflow-auto">{missingIndex.snippet}</pre>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Results */}
+          {results !== undefined && (
+            <div className="bg-slate-800 border border-slate-700 rounded-xl overflow-hidden flex flex-col">
+              <div className="p-3 border-b border-slate-700 text-xs text-slate-400 flex justify-between">
+                <span><span className="text-amber-400 font-bold">{resultCount}</span> matching children</span>
+                <span>Ordered by {resultOrder.orderBy}{resultOrder.orderBy === '$priority' ? ' (shown by key: REST results carry no priorities)' : ''}</span>
+              </div>
+              {resultCount === 0 ? (
+                <div className="p-6 text-center text-sm text-slate-500">No children matched.</div>
+              ) : (
+                <TreeView
+                  data={results}
+                  dbUrl={dbUrl}
+                  basePath={path}
+                  expandedPaths={expandedPaths}
+                  nextPageKeys={{}}
+                  onToggle={handleToggle}
+                  onLoadChildren={async () => {}}
+                  onLoadMore={async () => {}}
+                  onRefresh={() => { handleRun(); onRefresh(); }}
+                  onWrite={onWrite}
+                  onError={setError}
+                  height="40vh"
+                  rootOrder={resultOrder.keys}
+                />
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QueryPanel;
@@ -0,0 +1,201 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { RefreshCw, AlertCircle, CheckCircle2, Upload, RotateCcw, History, FlaskConical } from 'lucide-react';
+import { readRules } from '../services/firebaseService';
+import { validateRules, deployRules, listRulesVersions, RulesVersion } from '../services/rulesService';
+import { diffValues } from '../services/diffService';
+import DiffView from './DiffView';
+import RulesSimulator from './RulesSimulator';
+import ConfirmPhraseInput from './ConfirmPhraseInput';
+
+interface RulesPanelProps {
+  dbUrl: string;
+  snapshot: any; // loaded data for the simulator, undefined if the tree isn't fully loaded
+  onDone: (message: string) => void;
+  onError: (message: string) => void;
+  confirmPhrase?: string; // set for prod connections, must be typed before deploying
+}
+
+// Rules tab: edit the deployed rules, see what a deploy would change, restore older versions,
+// and try the draft out in the simulator. Without an admin credential only the simulator works.
+const RulesPanel: React.FC<RulesPanelProps> = ({ dbUrl, snapshot, onDone, onError, confirmPhrase }) => {
+  const [sideTab, setSideTab] = useState<'deploy' | 'simulate'>('deploy');
+  const [deployed, setDeployed] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [versions, setVersions] = useState<RulesVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [deploying, setDeploying] = useState(false);
+  const [typed, setTyped] = useState('');
+
+  const phraseOk = !confirmPhrase || typed.trim() === confirmPhrase;
+
+  const load = async () => {
+    setLoading(true);
+    setLoadError(null);
+    setConfirming(false);
+    try {
+      const text = await readRules(dbUrl);
+      setDeployed(text);
+      setDraft(text);
+    } catch (err: any) {
+      setDeployed(null);
+      setLoadError(err.message);
+      setSideTab('simulate');
+    } finally {
+      setLoading(false);
+    }
+    listRulesVersions(dbUrl).then(setVersions).catch((err: any) => onError(err.message));
+  };
+
+  useEffect(() => {
+    load();
+  }, [dbUrl]);
+
+  const validation = useMemo(() => validateRules(draft), [draft]);
+  const diff = useMemo(() => {
+    if (deployed === null || !validation.rules) return null;
+    const current = validateRules(deployed).rules;
+    return diffValues(current ? current.rules : null, validation.rules.rules, 'rules');
+  }, [deployed, validation]);
+
+  const unchanged = draft === deployed;
+
+  const handleDeploy = async () => {
+    setDeploying(true);
+    try {
+      await deployRules(dbUrl, draft);
+      setDeployed(draft);
+      setConfirming(false);
+      setVersions(await listRulesVersions(dbUrl));
+      onDone("Rules deployed. The previous version was saved.");
+    } catch (err: any) {
+      onError(err.message || "Failed to deploy rules");
+    } finally {
+      setDeploying(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      {loadError && (
+        <div className="px-4 py-2 bg-amber-900/20 border-b border-amber-500/30 text-amber-200 text-xs flex items-center gap-2">
+          <AlertCircle size={14} className="shrink-0 text-amber-400" />
+          <span className="flex-1 break-all">{loadError} Paste rules below to simulate them.</span>
+          <button onClick={load} disabled={loading} className="flex items-center gap-1 text-amber-300 hover:text-white disabled:opacity-50">
+            <RefreshCw size={12} className={loading ? 'animate-spin' : ''} /> Retry
+          </button>
+        </div>
+      )}
+      <div className="flex-1 flex flex-col md:flex-row min-h-0">
+        {/* Editor */}
+        <div className="flex-1 flex flex-col min-w-0 border-b md:border-b-0 md:border-r border-slate-700">
+          <textarea
+            className="flex-1 min-h-[400px] w-full bg-slate-950 text-slate-200 font-mono text-sm p-4 outline-none resize-none focus:ring-2 focus:ring-inset focus:ring-indigo-500/50"
+            value={draft}
+            onChange={(e) => { setDraft(e.target.value); setConfirming(false); }}
+            spellCheck={false}
+            disabled={loading || deploying}
+            placeholder={loading ? '// Loading rules...' : '{ "rules": { ".read": false, ".write": false } }'}
+          />
+          <div className={`px-4 py-2 text-xs flex items-center gap-2 border-t border-slate-700 ${validation.error ? 'bg-red-900/20 text-red-300' : 'bg-slate-800 text-emerald-300'}`}>
+            {validation.error ? <AlertCircle size={14} className="shrink-0" /> : <CheckCircle2 size={14} className="shrink-0" />}
+            <span className="break-all">
+              {validation.error ? `${validation.line ? `Line ${validation.line}: ` : ''}${validation.error}` : 'Valid rules'}
+            </span>
+          </div>
+        </div>
+
+        {/* Diff, deploy and versions, or the simulator */}
+        <div className="md:w-96 flex flex-col gap-4 p-4 overflow-y-auto">
+          <div className="flex gap-2 bg-slate-900 p-1 rounded-lg border border-slate-700">
+            <button
+              onClick={() => setSideTab('deploy')}
+              className={`flex-1 flex items-center justify-center gap-2 py-1.5 rounded-md text-xs font-medium transition-all ${sideTab === 'deploy' ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}
+            >
+              <Upload size={12} /> Deploy
+            </button>
+            <button
+              onClick={() => setSideTab('simulate')}
+              className={`flex-1 flex items-center justify-center gap-2 py-1.5 rounded-md text-xs font-medium transition-all ${sideTab === 'simulate' ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}
+            >
+              <FlaskConical size={12} /> Simulate
+            </button>
+          </div>
+
+          {sideTab === 'simulate' ? (
+            <RulesSimulator rules={validation.rules} snapshot={snapshot} />
+          ) : (
+          <>
+            <div>
+              <label className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-2 block">Changes vs deployed</label>
+              {diff ? (
+                <DiffView entries={diff} maxItems={50} emptyMessage={unchanged ? 'Editor matches the deployed rules.' : 'Only comments or formatting changed.'} />
+              ) : (
+                <p className="text-xs text-slate-500">Fix the errors to see the diff.</p>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                onClick={load}
+                disabled={loading || deploying}
+                className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm font-bold rounded-lg transition-colors flex justify-center items-center gap-2 disabled:opacity-50"
+                title="Discard edits and reload the deployed rules"
+              >
+                <RefreshCw size={14} className={loading ? 'animate-spin' : ''} /> Reload
+              </button>
+              {confirming ? (
+                <button
+                  onClick={handleDeploy}
+                  disabled={deploying || !phraseOk}
+                  className="flex-[2] py-2 bg-red-600 hover:bg-red-500 text-white text-sm font-bold rounded-lg shadow-lg transition-colors flex justify-center items-center gap-2 disabled:opacity-50"
+                >
+                  {deploying ? <RefreshCw size={14} className="animate-spin" /> : <Upload size={14} />} Confirm Deploy
+                </button>
+              ) : (
+                <button
+                  onClick={() => setConfirming(true)}
+                  disabled={loading || deployed === null || unchanged || !!validation.error}
+                  className="flex-[2] py-2 bg-emerald-600 hover:bg-emerald-500 text-white text-sm font-bold rounded-lg shadow-lg transition-colors flex justify-center items-center gap-2 disabled:opacity-50"
+                >
+                  <Upload size={14} /> Deploy
+                </button>
+              )}
+            </div>
+            {confirming && <p className="text-[11px] text-amber-300">Deploying replaces the live rules for every client immediately.</p>}
+            {confirming && confirmPhrase && <ConfirmPhraseInput phrase={confirmPhrase} value={typed} onChange={setTyped} />}
+
+            <div>
+              <label className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-2 flex items-center gap-2">
+                <History size={12} /> Previous Versions
+              </label>
+              {versions.length === 0 ? (
+                <p className="text-xs text-slate-500">Each deploy from here saves the version it replaced.</p>
+              ) : (
+                <div className="space-y-1">
+                  {versions.map(version => (
+                    <div key={version.id} className="flex items-center justify-between gap-2 px-3 py-2 bg-slate-800/50 border border-slate-700 rounded-lg">
+                      <span className="text-xs text-slate-300">{new Date(version.timestamp).toLocaleString()}</span>
+                      <button
+                        onClick={() => { setDraft(version.text); setConfirming(false); }}
+                        disabled={deploying}
+                        className="flex items-center gap-1 text-xs text-amber-300 hover:text-amber-200 disabled:opacity-50"
+                        title="Load into the editor, review the diff, then deploy to roll back"
+                      >
+                        <RotateCcw size={12} /> Restore
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RulesPanel;
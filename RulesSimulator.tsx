@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Play, CheckCircle2, AlertCircle, XCircle } from 'lucide-react';
+import { simulate, SimulatedOperation, SimulationResult } from '../services/simulatorService';
+
+interface RulesSimulatorProps {
+  rules: any | null; // parsed rules document from the editor, null while it has errors
+  snapshot: any;     // loaded data to prefill the snapshot with, undefined if not fully loaded
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded-lg py-2 px-3 text-white text-xs focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none font-mono placeholder-slate-600";
+const labelClass = "text-xs font-bold text-indigo-400 uppercase tracking-wider mb-1 block";
+
+const parseJson = (text: string, label: string): any => {
+  try {
+    return JSON.parse(text);
+  } catch (e: any) {
+    throw new Error(`${label}: ${e.message}`);
+  }
+};
+
+// Runs the editor's rules against a local snapshot, nothing is sent to the server
+const RulesSimulator: React.FC<RulesSimulatorProps> = ({ rules, snapshot }) => {
+  const [operation, setOperation] = useState<SimulatedOperation>('read');
+  const [path, setPath] = useState('');
+  const [newValue, setNewValue] = useState('"value"');
+  const [signedIn, setSignedIn] = useState(true);
+  const [authJson, setAuthJson] = useState('{\n  "uid": "user_1",\n  "token": { "email": "user@example.com" }\n}');
+  const [dataJson, setDataJson] = useState(() => snapshot === undefined ? '{}' : JSON.stringify(snapshot, null, 2));
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRun = () => {
+    setError(null);
+    setResult(null);
+    try {
+      setResult(simulate(rules, parseJson(dataJson, 'Data'), {
+        operation,
+        path,
+        newValue: operation === 'write' ? parseJson(newValue, 'New value') : undefined,
+        auth: signedIn ? parseJson(authJson, 'Auth') : null,
+      }));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2 bg-slate-950 p-1 rounded-lg border border-slate-700">
+        {(['read', 'write'] as SimulatedOperation[]).map(option => (
+          <button
+            key={option}
+            onClick={() => setOperation(option)}
+            className={`flex-1 py-1.5 rounded-md text-xs font-bold uppercase transition-all ${operation === option ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+
+      <div>
+        <label className={labelClass}>Path</label>
+        <input className={inputClass} placeholder="/users/user_1" value={path} onChange={(e) => setPath(e.target.value)} />
+      </div>
+
+      {operation === 'write' && (
+        <div>
+          <label className={labelClass}>New Value (JSON)</label>
+          <textarea className={`${inputClass} h-20 resize-y`} value={newValue} onChange={(e) => setNewValue(e.target.value)} spellCheck={false} />
+        </div>
+      )}
+
+      <div>
+        <label className="flex items-center gap-2 text-xs text-slate-300 mb-1">
+          <input type="checkbox" checked={signedIn} onChange={(e) => setSignedIn(e.target.checked)} /> Authenticated as
+        </label>
+        {signedIn && (
+          <textarea className={`${inputClass} h-20 resize-y`} value={authJson} onChange={(e) => setAuthJson(e.target.value)} spellCheck={false} />
+        )}
+      </div>
+
+      <div>
+        <label className={labelClass}>Data Snapshot (JSON)</label>
+        <textarea className={`${inputClass} h-28 resize-y`} value={dataJson} onChange={(e) => setDataJson(e.target.value)} spellCheck={false} />
+        {snapshot === undefined && <p className="text-[11px] text-slate-500 mt-1">The tree isn't fully loaded, so paste the data the rules should see.</p>}
+      </div>
+
+      <button
+        onClick={handleRun}
+        disabled={!rules}
+        className="w-full py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-bold rounded-lg shadow-lg transition-colors flex justify-center items-center gap-2 disabled:opacity-50"
+        title={rules ? '' : 'Fix the rules first'}
+      >
+        <Play size={14} fill="currentColor" /> Simulate
+      </button>
+
+      {error && (
+        <div className="p-3 bg-red-900/20 border border-red-500/30 rounded-lg text-red-200 text-xs flex items-start gap-2">
+          <AlertCircle size={14} className="mt-0.5 shrink-0 text-red-400" /> {error}
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-2">
+          <div className={`p-3 rounded-lg border text-sm font-bold flex items-start gap-2 ${result.allowed ? 'bg-emerald-900/20 border-emerald-500/30 text-emerald-300' : 'bg-red-900/20 border-red-500/30 text-red-300'}`}>
+            {result.allowed ? <CheckCircle2 size={16} className="mt-0.5 shrink-0" /> : <XCircle size={16} className="mt-0.5 shrink-0" />}
+            <span>{result.allowed ? 'Allowed' : 'Denied'}: <span className="font-normal">{result.reason}</span></span>
+          </div>
+          <div className="bg-slate-950 rounded-xl border border-slate-800 p-3 font-mono text-[11px] space-y-2">
+            {result.trace.length === 0 && <p className="text-slate-500">No rules were evaluated.</p>}
+            {result.trace.map((step, idx) => (
+              <div key={idx} className="border-b border-slate-800 last:border-b-0 pb-2 last:pb-0">
+                <div className="flex items-center gap-2">
+                  <span className={step.result ? 'text-emerald-400' : 'text-red-400'}>{step.result ? '✓' : '✗'}</span>
+                  <span className="text-indigo-300 break-all">{step.rulePath}/{step.kind}</span>
+                  <span className="text-slate-500 break-all">at {step.location}</span>
+                </div>
+                <div className="text-slate-400 break-all pl-4">{step.expression}</div>
+                {step.error && <div className="text-amber-300 break-all pl-4">Error: {step.error}</div>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RulesSimulator;
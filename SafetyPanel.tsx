@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { ShieldAlert, X, Lock, LockOpen, Plus, Trash2 } from 'lucide-react';
+import { getDatabaseLabel } from '../services/firebaseService';
+import { normalizePath } from '../services/mutationService';
+import { ConnectionSafety } from '../services/profileService';
+
+interface SafetyPanelProps {
+  dbUrl: string;
+  safety: ConnectionSafety;
+  onChange: (safety: ConnectionSafety) => void;
+  onClose: () => void;
+}
+
+// Write protection for one connection, remembered across sessions
+const SafetyPanel: React.FC<SafetyPanelProps> = ({ dbUrl, safety, onChange, onClose }) => {
+  const [newPath, setNewPath] = useState('');
+
+  const cleanNew = normalizePath(newPath);
+  const canAdd = !!cleanNew && !safety.protectedPaths.includes(cleanNew);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdd) return;
+    onChange({ ...safety, protectedPaths: [...safety.protectedPaths, cleanNew].sort() });
+    setNewPath('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-md animate-in fade-in duration-200 px-4">
+      <div className="bg-slate-900 border border-red-500/40 rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden relative flex flex-col max-h-[90vh]">
+        <div className="absolute top-0 w-full h-1 bg-gradient-to-r from-red-500 to-amber-500"></div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div className="flex justify-between items-start">
+            <div className="flex items-center gap-3">
+              <div className="bg-red-500/20 p-2 rounded-lg">
+                <ShieldAlert size={24} className="text-red-400" />
+              </div>
+              <div>
+                <h3 className="text-xl font-bold text-white">Write Protection</h3>
+                <p className="text-xs text-slate-400">{getDatabaseLabel(dbUrl)}</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors bg-slate-800 p-1 rounded-md">
+              <X size={20} />
+            </button>
+          </div>
+
+          <label className="flex items-start gap-3 p-3 rounded-lg border border-slate-700 cursor-pointer hover:bg-slate-800 transition-colors">
+            <input type="checkbox" className="mt-1" checked={safety.readOnly} onChange={(e) => onChange({ ...safety, readOnly: e.target.checked })} />
+            <span>
+              <span className="flex items-center gap-2 text-sm text-white font-medium">
+                {safety.readOnly ? <Lock size={14} className="text-red-400" /> : <LockOpen size={14} className="text-slate-400" />} Read-only
+              </span>
+              <span className="block text-xs text-slate-400">Every write, import, undo and rules deploy is rejected until this is turned off.</span>
+            </span>
+          </label>
+
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-red-400 uppercase tracking-wider block">Protected Paths</label>
+            <p className="text-xs text-slate-500">Writes to these paths, below them, or to a parent that replaces them need the path typed to confirm.</p>
+            <form onSubmit={handleAdd} className="flex gap-2">
+              <input
+                className="w-full bg-slate-950 border border-slate-700 rounded-lg py-2 px-3 text-white text-sm focus:border-red-500 focus:ring-1 focus:ring-red-500 outline-none font-mono placeholder-slate-600"
+                placeholder="/config"
+                value={newPath}
+                onChange={(e) => setNewPath(e.target.value)}
+              />
+              <button
+                type="submit"
+                disabled={!canAdd}
+                className="px-4 bg-slate-700 hover:bg-slate-600 text-white text-sm font-bold rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+              >
+                <Plus size={14} /> Add
+              </button>
+            </form>
+            {safety.protectedPaths.map(path => (
+              <div key={path} className="flex items-center justify-between gap-2 px-3 py-2 bg-slate-800/50 border border-slate-700 rounded-lg">
+                <span className="text-sm font-mono text-indigo-300 break-all">/{path}</span>
+                <button
+                  onClick={() => onChange({ ...safety, protectedPaths: safety.protectedPaths.filter(p => p !== path) })}
+                  className="text-slate-500 hover:text-red-400 transition-colors"
+                  title="Remove"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SafetyPanel;
@@ -0,0 +1,165 @@
+import React, { useState, useRef } from 'react';
+import { Search, X, RefreshCw, AlertCircle, CloudDownload } from 'lucide-react';
+import { searchTree, streamSearch, findMatchRange, SearchOptions, SearchOutcome, SEARCH_LIMIT } from '../services/searchService';
+
+interface SearchPanelProps {
+  data: any;
+  dbUrl: string;
+  basePath: string; // focused subtree `data` sits at
+  onReveal: (path: string) => void;
+  onClose: () => void;
+}
+
+const Highlighted: React.FC<{ text: string; options: SearchOptions }> = ({ text, options }) => {
+  const range = findMatchRange(text, options);
+  if (!range) return <>{text}</>;
+  return (
+    <>
+      {text.slice(0, range[0])}
+      <mark className="bg-yellow-400/30 text-yellow-100 rounded-sm">{text.slice(range[0], range[1])}</mark>
+      {text.slice(range[1])}
+    </>
+  );
+};
+
+const preview = (value: any): string => {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+};
+
+// Finds keys and values in the loaded tree, or streams the server copy for levels not loaded yet
+const SearchPanel: React.FC<SearchPanelProps> = ({ data, dbUrl, basePath, onReveal, onClose }) => {
+  const [options, setOptions] = useState<SearchOptions>({ query: '', regex: false, caseSensitive: false, keys: true, values: true });
+  const [outcome, setOutcome] = useState<SearchOutcome | null>(null);
+  const [searched, setSearched] = useState<SearchOptions | null>(null); // options the results were found with
+  const [source, setSource] = useState<'loaded' | 'server'>('loaded');
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const cancelled = useRef(false);
+
+  const set = (patch: Partial<SearchOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+  const ready = !!options.query && (options.keys || options.values);
+
+  const handleSearch = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!ready) return;
+    setError(null);
+    setSelected(null);
+    try {
+      setOutcome(searchTree(data, options, basePath));
+      setSearched(options);
+      setSource('loaded');
+    } catch (err: any) {
+      setOutcome(null);
+      setError(err.message);
+    }
+  };
+
+  const handleServerSearch = async () => {
+    if (!ready) return;
+    cancelled.current = false;
+    setError(null);
+    setSelected(null);
+    setProgress('Reading top level...');
+    try {
+      const result = await streamSearch(dbUrl, basePath, options, (scanned, total) => setProgress(`Searched ${scanned}/${total} top-level keys...`), () => cancelled.current);
+      setOutcome(result);
+      setSearched(options);
+      setSource('server');
+    } catch (err: any) {
+      setError(err.message || "Search failed");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const toggleClass = (on: boolean) => `px-2 py-1 rounded text-xs font-mono font-bold border transition-colors ${on ? 'bg-indigo-600/30 text-indigo-200 border-indigo-500/50' : 'text-slate-400 border-slate-700 hover:text-white'}`;
+
+  return (
+    <div className="border-b border-slate-700 bg-slate-900/80 p-3 space-y-2">
+      <form onSubmit={handleSearch} className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search size={14} className="absolute left-3 top-2.5 text-slate-500" />
+          <input
+            autoFocus
+            className="w-full bg-slate-950 border border-slate-700 rounded-lg py-2 px-3 pl-9 text-white text-sm focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none font-mono placeholder-slate-600"
+            placeholder={options.regex ? 'Regular expression' : 'Search keys and values'}
+            value={options.query}
+            onChange={(e) => set({ query: e.target.value })}
+            onKeyDown={(e) => e.key === 'Escape' && onClose()}
+          />
+        </div>
+        <button type="button" className={toggleClass(options.regex)} onClick={() => set({ regex: !options.regex })} title="Regular expression">.*</button>
+        <button type="button" className={toggleClass(options.caseSensitive)} onClick={() => set({ caseSensitive: !options.caseSensitive })} title="Match case">Aa</button>
+        <button type="button" className={toggleClass(options.keys)} onClick={() => set({ keys: !options.keys })}>Keys</button>
+        <button type="button" className={toggleClass(options.values)} onClick={() => set({ values: !options.values })}>Values</button>
+        <button type="submit" disabled={!ready || !!progress} className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold rounded-lg transition-colors disabled:opacity-50">
+          Search
+        </button>
+        <button
+          type="button"
+          onClick={handleServerSearch}
+          disabled={!ready || !!progress}
+          className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-200 text-xs font-bold rounded-lg border border-slate-700 transition-colors flex items-center gap-1 disabled:opacity-50"
+          title="Download the database in chunks and search all of it"
+        >
+          <CloudDownload size={14} /> Search Server
+        </button>
+        <button type="button" onClick={onClose} className="text-slate-500 hover:text-white transition-colors p-1">
+          <X size={16} />
+        </button>
+      </form>
+
+      {progress && (
+        <div className="text-xs text-slate-400 flex items-center gap-2">
+          <RefreshCw size={14} className="animate-spin" /> {progress}
+          <button onClick={() => { cancelled.current = true; }} className="text-red-300 hover:text-white">Cancel</button>
+        </div>
+      )}
+
+      {error && (
+        <div className="text-xs text-red-300 flex items-center gap-2">
+          <AlertCircle size={14} className="shrink-0" /> {error}
+        </div>
+      )}
+
+      {outcome && searched && (
+        <div className="space-y-1">
+          <div className="text-[11px] text-slate-500 flex flex-wrap gap-x-3">
+            <span>{outcome.results.length}{outcome.truncated ? '+' : ''} match{outcome.results.length === 1 ? '' : 'es'} in the {source === 'loaded' ? 'loaded tree' : 'server data'}</span>
+            {outcome.truncated && <span>Showing the first {SEARCH_LIMIT}.</span>}
+            {outcome.partial && source === 'loaded' && <span className="text-amber-300">Some levels aren't loaded yet. Search the server to include them.</span>}
+          </div>
+          {outcome.results.length > 0 && (
+            <div className="max-h-56 overflow-auto bg-slate-950 rounded-lg border border-slate-800 font-mono text-xs">
+              {outcome.results.map(result => {
+                const key = result.path.split('/').pop() || '';
+                const parent = result.path.slice(0, result.path.length - key.length);
+                return (
+                  <button
+                    key={`${result.field}:${result.path}`}
+                    onClick={() => { setSelected(result.path); onReveal(result.path); }}
+                    className={`w-full text-left px-3 py-1.5 border-b border-slate-900 last:border-b-0 hover:bg-slate-800 transition-colors ${selected === result.path ? 'bg-indigo-500/10' : ''}`}
+                  >
+                    <div className="break-all">
+                      <span className="text-slate-500">/{parent}</span>
+                      <span className="text-indigo-300">{result.field === 'key' ? <Highlighted text={key} options={searched} /> : key}</span>
+                    </div>
+                    {result.value !== undefined && (
+                      <div className="text-emerald-400/80 break-all pl-3">
+                        {result.field === 'value' ? <Highlighted text={preview(result.value)} options={searched} /> : preview(result.value)}
+                      </div>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchPanel;
@@ -0,0 +1,387 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { ChevronsDown, Loader2 } from 'lucide-react';
+import DataNode from './DataNode';
+import BulkActionBar from './BulkActionBar';
+import { isUnloaded, isBranch, compareKeys, splitPath } from '../services/treeUtils';
+import { WriteOperation } from '../types';
+import { RELOCATE_LABELS, dropTarget, validateDrop, prepareRelocation } from '../services/relocateService';
+
+export const PAGE_SIZE = 500;
+
+const ROW_HEIGHT = 45; // Estimate for rows that have not been measured yet
+const OVERSCAN = 8;
+
+interface TreeViewProps {
+  data: any;
+  dbUrl: string;
+  basePath?: string; // database path `data` was read from, so row actions hit the right location
+  expandedPaths: Set<string>;
+  nextPageKeys: Record<string, string>;
+  onToggle: (path: string, expanded: boolean) => void;
+  onLoadChildren: (path: string) => Promise<void>;
+  onLoadMore: (path: string) => Promise<void>;
+  onRefresh: () => void;
+  onWrite: (operations: WriteOperation[], title: string) => Promise<boolean>;
+  onError: (message: string) => void;
+  onQuery?: (path: string) => void;
+  onExport?: (path: string) => void;
+  onFocus?: (path: string) => void;
+  highlight?: { path: string } | null; // scrolled to and marked once its row exists; a new object scrolls again
+  height?: string;
+  rootOrder?: string[]; // top-level keys in display order (query results); deeper levels and the default go by key
+}
+
+type Row =
+  | { kind: 'node'; key: string; path: string; parentPath: string; name: string; value: any; depth: number }
+  | { kind: 'more'; key: string; path: string; depth: number };
+
+// Flattens the expanded part of the tree into the rows the window renders
+const flattenRows = (data: any, basePath: string, expandedPaths: Set<string>, nextPageKeys: Record<string, string>, rootOrder?: string[]): Row[] => {
+  const rows: Row[] = [];
+
+  const walk = (value: any, parentPath: string, depth: number) => {
+    const keys = depth === 0 && rootOrder ? rootOrder.filter(key => key in value) : Object.keys(value).sort(compareKeys);
+    for (const key of keys) {
+      const path = parentPath ? `${parentPath}/${key}` : key;
+      const child = value[key];
+      rows.push({ kind: 'node', key: path, path, parentPath, name: key, value: child, depth });
+      if (expandedPaths.has(path) && isBranch(child) && !isUnloaded(child)) walk(child, path, depth + 1);
+    }
+    if (nextPageKeys[parentPath] !== undefined) {
+      rows.push({ kind: 'more', key: `${parentPath}/#more`, path: parentPath, depth });
+    }
+  };
+
+  if (isBranch(data)) walk(data, basePath, 0);
+  else if (basePath) {
+    // A focused leaf keeps its real name and parent so row actions write to the right place
+    const keys = splitPath(basePath);
+    const name = keys.pop() as string;
+    rows.push({ kind: 'node', key: basePath, path: basePath, parentPath: keys.join('/'), name, value: data, depth: 0 });
+  } else rows.push({ kind: 'node', key: 'root', path: 'root', parentPath: '', name: 'root', value: data, depth: 0 });
+  return rows;
+};
+
+const TreeView: React.FC<TreeViewProps> = ({ data, dbUrl, basePath = '', expandedPaths, nextPageKeys, onToggle, onLoadChildren, onLoadMore, onRefresh, onWrite, onError, onQuery, onExport, onFocus, highlight = null, height = '70vh', rootOrder }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+  const [focusedPath, setFocusedPath] = useState<string | null>(null);
+  const [loadingPaths, setLoadingPaths] = useState<Set<string>>(new Set());
+  const inFlight = useRef(new Set<string>());
+  // Node being dragged, and the object row it is over with what a drop there would do
+  const [dragSource, setDragSource] = useState<string | null>(null);
+  const [dropInfo, setDropInfo] = useState<{ path: string; mode: 'move' | 'duplicate'; problem: string | null } | null>(null);
+  // Selected rows all share one parent, so bulk writes never nest. The anchor is where a shift-click range starts.
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const selectAnchor = useRef<string | null>(null);
+
+  // Measured heights by row key. Rows grow when an edit or add form opens.
+  const heights = useRef(new Map<string, number>());
+  const observed = useRef(new Map<string, Element>());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const resizeObserver = useRef<ResizeObserver | null>(null);
+
+  const rows = useMemo(() => flattenRows(data, basePath, expandedPaths, nextPageKeys, rootOrder), [data, basePath, expandedPaths, nextPageKeys, rootOrder]);
+
+  const offsets = useMemo(() => {
+    const result = new Array<number>(rows.length + 1);
+    result[0] = 0;
+    rows.forEach((row, i) => {
+      result[i + 1] = result[i] + (heights.current.get(row.key) ?? ROW_HEIGHT);
+    });
+    return result;
+  }, [rows, measureVersion]);
+
+  useEffect(() => {
+    resizeObserver.current = new ResizeObserver(entries => {
+      let changed = false;
+      for (const entry of entries) {
+        const key = (entry.target as HTMLElement).dataset.rowKey;
+        const height = (entry.target as HTMLElement).offsetHeight;
+        if (key && height && heights.current.get(key) !== height) {
+          heights.current.set(key, height);
+          changed = true;
+        }
+      }
+      if (changed) setMeasureVersion(v => v + 1);
+    });
+
+    const container = containerRef.current;
+    const viewportObserver = new ResizeObserver(() => {
+      if (container) setViewportHeight(container.clientHeight);
+    });
+    if (container) viewportObserver.observe(container);
+
+    return () => {
+      resizeObserver.current?.disconnect();
+      viewportObserver.disconnect();
+    };
+  }, []);
+
+  const measureRef = (key: string) => (el: HTMLDivElement | null) => {
+    const previous = observed.current.get(key);
+    if (previous && previous !== el) {
+      resizeObserver.current?.unobserve(previous);
+      observed.current.delete(key);
+    }
+    if (el && previous !== el) {
+      observed.current.set(key, el);
+      resizeObserver.current?.observe(el);
+    }
+  };
+
+  // Expanded nodes that are still placeholders (first open, or after a refresh) get their level fetched
+  useEffect(() => {
+    for (const row of rows) {
+      if (row.kind !== 'node' || !isUnloaded(row.value) || !expandedPaths.has(row.path)) continue;
+      if (inFlight.current.has(row.path)) continue;
+      runLoad(row.path, () => onLoadChildren(row.path), () => onToggle(row.path, false));
+    }
+  }, [rows]);
+
+  const runLoad = (path: string, load: () => Promise<void>, onFail?: () => void) => {
+    inFlight.current.add(path);
+    setLoadingPaths(prev => new Set(prev).add(path));
+    load()
+      .catch((error: any) => {
+        onFail?.();
+        onError(error.message || 'Failed to load children.');
+      })
+      .finally(() => {
+        inFlight.current.delete(path);
+        setLoadingPaths(prev => {
+          const next = new Set(prev);
+          next.delete(path);
+          return next;
+        });
+      });
+  };
+
+  useEffect(() => {
+    setSelected(new Set());
+    selectAnchor.current = null;
+  }, [dbUrl, basePath]);
+
+  // Rows that are selected and still shown, in tree order. Collapsed or deleted ones drop out.
+  const selectedPaths = useMemo(
+    () => rows.filter(row => row.kind === 'node' && selected.has(row.path)).map(row => row.path),
+    [rows, selected]
+  );
+
+  const handleSelect = (path: string, range: boolean) => {
+    const row = rows.find(r => r.kind === 'node' && r.path === path);
+    if (!row || row.kind !== 'node') return;
+    const siblings = rows.filter(r => r.kind === 'node' && r.parentPath === row.parentPath).map(r => r.path);
+    const sameParent = selectedPaths.every(p => siblings.includes(p));
+    const next = new Set(sameParent ? selectedPaths : []);
+
+    const anchor = selectAnchor.current;
+    if (range && anchor && anchor !== path && siblings.includes(anchor)) {
+      const [from, to] = [siblings.indexOf(anchor), siblings.indexOf(path)].sort((a, b) => a - b);
+      siblings.slice(from, to + 1).forEach(p => next.add(p));
+    } else {
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      selectAnchor.current = path;
+    }
+    setSelected(next);
+  };
+
+  const clearSelection = () => {
+    setSelected(new Set());
+    selectAnchor.current = null;
+  };
+
+  // A revealed path may need its ancestors loaded first, so scroll once its row shows up
+  const scrolledTo = useRef<{ path: string } | null>(null);
+  useEffect(() => {
+    if (!highlight || scrolledTo.current === highlight) return;
+    const index = rows.findIndex(row => row.kind === 'node' && row.path === highlight.path);
+    const container = containerRef.current;
+    if (index === -1 || !container) return;
+    scrolledTo.current = highlight;
+    setFocusedPath(highlight.path);
+    container.scrollTop = Math.max(0, offsets[index] - container.clientHeight / 3);
+  }, [highlight, rows, offsets]);
+
+  // Only object rows take drops; Alt copies instead of moving
+  const handleDragOver = (e: React.DragEvent, row: Row & { kind: 'node' }) => {
+    if (!dragSource || !isBranch(row.value)) return;
+    const mode = e.altKey ? 'duplicate' : 'move';
+    const problem = validateDrop(mode, dragSource, row.path);
+    if (dropInfo?.path !== row.path || dropInfo.mode !== mode || dropInfo.problem !== problem) setDropInfo({ path: row.path, mode, problem });
+    if (problem) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = mode === 'move' ? 'move' : 'copy';
+  };
+
+  const handleDragLeave = (e: React.DragEvent, path: string) => {
+    if (e.currentTarget.contains(e.relatedTarget as Node)) return;
+    setDropInfo(info => (info?.path === path ? null : info));
+  };
+
+  const endDrag = () => {
+    setDragSource(null);
+    setDropInfo(null);
+  };
+
+  // The review dialog opened by onWrite is the confirmation: it lists both paths and the diff
+  const handleDrop = async (e: React.DragEvent, parent: string) => {
+    e.preventDefault();
+    const source = dragSource;
+    const mode = e.altKey ? 'duplicate' : 'move';
+    endDrag();
+    if (!source || validateDrop(mode, source, parent)) return;
+
+    const target = dropTarget(source, parent);
+    try {
+      const operations = await prepareRelocation(dbUrl, mode, source, target);
+      if (!await onWrite(operations, `${RELOCATE_LABELS[mode]} /${source} to /${target}`)) return;
+      if (!expandedPaths.has(parent)) onToggle(parent, true);
+      onRefresh();
+    } catch (error: any) {
+      onError(error.message || 'Failed to move node.');
+    }
+  };
+
+  // Visible slice: binary search the first row at the top edge, then fill the viewport
+  let start = 0;
+  let low = 0;
+  let high = rows.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= scrollTop) low = mid + 1;
+    else {
+      start = mid;
+      high = mid - 1;
+    }
+  }
+  if (low >= rows.length) start = Math.max(rows.length - 1, 0);
+  let end = start;
+  while (end < rows.length && offsets[end] < scrollTop + viewportHeight) end++;
+  start = Math.max(0, start - OVERSCAN);
+  end = Math.min(rows.length, end + OVERSCAN);
+
+  const scrollIntoView = (index: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const top = offsets[index];
+    const bottom = offsets[index + 1];
+    if (top < container.scrollTop) container.scrollTop = top;
+    else if (bottom > container.scrollTop + container.clientHeight) container.scrollTop = bottom - container.clientHeight;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const target = e.target as HTMLElement;
+    if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+    if (e.key === 'Escape' && selectedPaths.length) {
+      clearSelection();
+      return;
+    }
+
+    const nodeIndexes = rows.map((row, i) => (row.kind === 'node' ? i : -1)).filter(i => i >= 0);
+    const current = rows.findIndex(row => row.kind === 'node' && row.path === focusedPath);
+    const position = nodeIndexes.indexOf(current);
+    const row = current >= 0 ? rows[current] : null;
+
+    const focusIndex = (index: number | undefined) => {
+      if (index === undefined) return;
+      const next = rows[index];
+      if (next?.kind !== 'node') return;
+      setFocusedPath(next.path);
+      scrollIntoView(index);
+    };
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      focusIndex(position < 0 ? nodeIndexes[0] : nodeIndexes[position + 1]);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      focusIndex(position < 0 ? nodeIndexes[0] : nodeIndexes[position - 1]);
+    } else if (e.key === 'ArrowRight' && row?.kind === 'node' && isBranch(row.value)) {
+      e.preventDefault();
+      if (!expandedPaths.has(row.path)) onToggle(row.path, true);
+      else focusIndex(nodeIndexes[position + 1]);
+    } else if (e.key === 'ArrowLeft' && row?.kind === 'node') {
+      e.preventDefault();
+      if (expandedPaths.has(row.path)) onToggle(row.path, false);
+      else focusIndex(rows.findIndex(r => r.kind === 'node' && r.path === row.parentPath));
+    }
+  };
+
+  return (
+    <>
+      {selectedPaths.length > 0 && (
+        <BulkActionBar dbUrl={dbUrl} paths={selectedPaths} onWrite={onWrite} onRefresh={onRefresh} onError={onError} onClear={clearSelection} />
+      )}
+      <div
+        ref={containerRef}
+        className="overflow-auto flex-1 outline-none"
+        style={{ height }}
+        tabIndex={0}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="font-mono text-sm" style={{ paddingTop: offsets[start], paddingBottom: offsets[rows.length] - offsets[end] }}>
+          {rows.slice(start, end).map(row => (
+            <div
+              key={row.key}
+              data-row-key={row.key}
+              ref={measureRef(row.key)}
+              onMouseDown={() => row.kind === 'node' && setFocusedPath(row.path)}
+              onDragStart={(e) => row.kind === 'node' && (e.target as HTMLElement).draggable && setDragSource(row.path)}
+              onDragEnd={endDrag}
+              onDragOver={(e) => row.kind === 'node' && handleDragOver(e, row)}
+              onDragLeave={(e) => handleDragLeave(e, row.path)}
+              onDrop={(e) => handleDrop(e, row.path)}
+              className={`relative ${dropInfo?.path === row.path ? (dropInfo.problem ? 'ring-1 ring-inset ring-red-500/60' : 'ring-2 ring-inset ring-blue-400 bg-blue-500/10') : ''}`}
+            >
+              {dropInfo?.path === row.path && (
+                <span className={`absolute right-2 top-1 z-10 pointer-events-none px-2 py-0.5 rounded text-[10px] font-sans font-bold shadow ${dropInfo.problem ? 'bg-red-900/90 text-red-200' : 'bg-blue-900/90 text-blue-100'}`}>
+                  {dropInfo.problem || `${RELOCATE_LABELS[dropInfo.mode]} to /${dropTarget(dragSource || '', row.path)}`}
+                </span>
+              )}
+              {row.kind === 'node' ? (
+                <DataNode
+                  name={row.name}
+                  path={row.parentPath}
+                  value={row.value}
+                  dbUrl={dbUrl}
+                  onRefresh={onRefresh}
+                  onWrite={onWrite}
+                  expanded={expandedPaths.has(row.path)}
+                  onToggle={onToggle}
+                  loadingChildren={loadingPaths.has(row.path)}
+                  focused={focusedPath === row.path}
+                  highlighted={highlight?.path === row.path}
+                  onQuery={onQuery}
+                  onExport={onExport}
+                  onFocus={onFocus}
+                  draggable={row.key !== 'root'}
+                  selected={selected.has(row.path)}
+                  selecting={selectedPaths.length > 0}
+                  onSelect={row.key !== 'root' ? handleSelect : undefined}
+                  depth={row.depth}
+                />
+              ) : (
+                <div className="border-b border-slate-700/50 py-2 px-2" style={{ paddingLeft: `${row.depth * 1.5 + 2.5}rem` }}>
+                  <button
+                    onClick={() => runLoad(`${row.path}/#more`, () => onLoadMore(row.path))}
+                    disabled={loadingPaths.has(`${row.path}/#more`)}
+                    className="flex items-center gap-2 px-3 py-1 text-xs font-bold text-indigo-300 hover:text-white hover:bg-indigo-600/30 rounded border border-indigo-500/30 transition-colors disabled:opacity-50"
+                  >
+                    {loadingPaths.has(`${row.path}/#more`) ? <Loader2 size={14} className="animate-spin" /> : <ChevronsDown size={14} />}
+                    Show next {PAGE_SIZE}
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default TreeView;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { AlertCircle } from 'lucide-react';
+import { VALUE_TYPES, ValueDraft, ValueType, parseDraft, changeDraftType } from '../services/valueService';
+
+interface ValueEditorProps {
+  draft: ValueDraft;
+  onChange: (draft: ValueDraft) => void;
+  onSubmit: () => void;
+  onCancel: () => void;
+  autoFocus?: boolean;
+}
+
+const typeLabels: Partial<Record<ValueType, string>> = {
+  timestamp: 'server timestamp',
+  increment: 'server increment',
+};
+
+const fieldClass = "bg-slate-950 border border-indigo-500 rounded px-2 py-1 text-sm font-mono text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 shadow-lg";
+
+// Type selector plus an input that fits the type. Objects and arrays get a multi-line JSON box
+// (Ctrl+Enter saves); everything else saves on Enter. Esc cancels.
+const ValueEditor: React.FC<ValueEditorProps> = ({ draft, onChange, onSubmit, onCancel, autoFocus = false }) => {
+  const parsed = parseDraft(draft);
+  const multiline = draft.type === 'object' || draft.type === 'array';
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') onCancel();
+    else if (e.key === 'Enter' && (!multiline || e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="flex-1 min-w-0 space-y-1" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-start gap-2">
+        <select
+          value={draft.type}
+          onChange={(e) => onChange(changeDraftType(draft, e.target.value as ValueType))}
+          onKeyDown={handleKeyDown}
+          className={`${fieldClass} shrink-0 font-sans text-xs`}
+          title="Value type"
+        >
+          {VALUE_TYPES.map(type => <option key={type} value={type}>{typeLabels[type] || type}</option>)}
+        </select>
+
+        {draft.type === 'boolean' ? (
+          <select value={draft.text} onChange={(e) => onChange({ ...draft, text: e.target.value })} onKeyDown={handleKeyDown} autoFocus={autoFocus} className={fieldClass}>
+            <option value="true">true</option>
+            <option value="false">false</option>
+          </select>
+        ) : draft.type === 'null' ? (
+          <span className="px-2 py-1 text-sm font-mono text-slate-500 italic" tabIndex={0} onKeyDown={handleKeyDown}>null</span>
+        ) : draft.type === 'timestamp' ? (
+          <span className="px-2 py-1 text-sm text-slate-400 italic" tabIndex={0} onKeyDown={handleKeyDown} title='Sent as {".sv": "timestamp"}'>Server time when the write lands</span>
+        ) : multiline ? (
+          <textarea
+            value={draft.text}
+            onChange={(e) => onChange({ ...draft, text: e.target.value })}
+            onKeyDown={handleKeyDown}
+            autoFocus={autoFocus}
+            spellCheck={false}
+            rows={Math.min(Math.max(draft.text.split('\n').length, 3), 16)}
+            className={`${fieldClass} w-full resize-y ${parsed.error ? 'border-red-500 focus:ring-red-500' : ''}`}
+          />
+        ) : (
+          <input
+            value={draft.text}
+            onChange={(e) => onChange({ ...draft, text: e.target.value })}
+            onKeyDown={handleKeyDown}
+            autoFocus={autoFocus}
+            inputMode={draft.type === 'number' || draft.type === 'increment' ? 'decimal' : undefined}
+            placeholder={draft.type === 'string' ? '(empty string)' : draft.type === 'increment' ? 'Amount to add, e.g. 1 or -1' : '0'}
+            title={draft.type === 'increment' ? 'Sent as {".sv": {"increment": n}}, added to the current value on the server' : undefined}
+            className={`${fieldClass} w-full ${parsed.error ? 'border-red-500 focus:ring-red-500' : ''}`}
+          />
+        )}
+      </div>
+      {parsed.error && (
+        <div className="text-[11px] text-red-300 flex items-center gap-1 pl-1">
+          <AlertCircle size={12} className="shrink-0" />
+          <span className="break-all">{parsed.line ? `Line ${parsed.line}: ` : ''}{parsed.error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ValueEditor;
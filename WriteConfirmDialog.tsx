@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import { GitCompare, X, RefreshCw, AlertCircle, Check } from 'lucide-react';
+import { WriteOperation } from '../types';
+import { buildPreview, normalizePath, batchMode, MAX_ATOMIC_BYTES, WritePreview } from '../services/mutationService';
+import DiffView from './DiffView';
+import ConfirmPhraseInput from './ConfirmPhraseInput';
+
+interface WriteConfirmDialogProps {
+  dbUrl: string;
+  title: string;
+  operations: WriteOperation[];
+  onConfirm: (preview: WritePreview) => void;
+  onCancel: () => void;
+  confirmPhrase?: string; // set for prod connections, must be typed before confirming
+  protectedHits?: string[]; // protected paths this write touches
+}
+
+const typeStyles: Record<WriteOperation['type'], string> = {
+  DELETE: 'bg-red-900/50 text-red-400 border border-red-500/30',
+  SET: 'bg-emerald-900/50 text-emerald-400 border border-emerald-500/30',
+  UPDATE: 'bg-blue-900/50 text-blue-400 border border-blue-500/30',
+  PUSH: 'bg-cyan-900/50 text-cyan-400 border border-cyan-500/30',
+};
+
+// Shows what a write would change on the server and waits for an explicit confirm
+const WriteConfirmDialog: React.FC<WriteConfirmDialogProps> = ({ dbUrl, title, operations, onConfirm, onCancel, confirmPhrase, protectedHits = [] }) => {
+  const [preview, setPreview] = useState<WritePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [typed, setTyped] = useState('');
+  const [typedPath, setTypedPath] = useState('');
+
+  const protectedPhrase = protectedHits.length ? `/${protectedHits[0]}` : '';
+  const phraseOk = (!confirmPhrase || typed.trim() === confirmPhrase) && typedPath.trim() === protectedPhrase;
+  const mode = batchMode(operations);
+
+  useEffect(() => {
+    let active = true;
+    buildPreview(dbUrl, operations)
+      .then(result => active && setPreview(result))
+      .catch((err: any) => active && setError(err.message || 'Could not read current data.'));
+    return () => { active = false; };
+  }, [dbUrl, operations]);
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/80 backdrop-blur-md animate-in fade-in duration-200 px-4">
+      <div className="bg-slate-900 border border-indigo-500/50 rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden relative flex flex-col max-h-[90vh]">
+        <div className="absolute top-0 w-full h-1 bg-gradient-to-r from-indigo-500 to-cyan-500"></div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="flex justify-between items-start">
+            <div className="flex items-center gap-3">
+              <div className="bg-indigo-500/20 p-2 rounded-lg">
+                <GitCompare size={24} className="text-indigo-400" />
+              </div>
+              <div>
+                <h3 className="text-xl font-bold text-white">Review Changes</h3>
+                <p className="text-xs text-slate-400">{title}</p>
+              </div>
+            </div>
+            <button onClick={onCancel} className="text-slate-500 hover:text-white transition-colors bg-slate-800 p-1 rounded-md">
+              <X size={20} />
+            </button>
+          </div>
+
+          {mode === 'atomic' || mode === 'sequential' ? (
+            <p className="text-xs text-slate-300">
+              <span className="font-bold text-white">{operations.length} paths</span>{' '}
+              {mode === 'atomic' ? 'in one atomic multi-path update.' : 'written in order, rolled back if one fails.'}
+            </p>
+          ) : mode === 'too-large' && (
+            <div className="p-3 bg-amber-900/20 border border-amber-500/30 rounded-lg text-amber-200 text-xs flex items-start gap-2">
+              <AlertCircle size={14} className="mt-0.5 shrink-0 text-amber-400" />
+              <span>
+                <span className="font-bold">Not atomic.</span> These {operations.length} paths are over the {MAX_ATOMIC_BYTES / 1024} KB limit for one update, so
+                they are written one by one and rolled back if one fails. Other clients can see the write half done while it runs.
+              </span>
+            </div>
+          )}
+          <div className="space-y-1 font-mono text-xs max-h-48 overflow-y-auto">
+            {operations.map((operation, idx) => (
+              <div key={idx} className="flex gap-2 items-center">
+                <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${typeStyles[operation.type]}`}>{operation.type}</span>
+                <span className="text-indigo-300 break-all">/{normalizePath(operation.path)}</span>
+              </div>
+            ))}
+          </div>
+
+          {error ? (
+            <div className="p-3 bg-red-900/20 border border-red-500/30 rounded-lg text-red-200 text-sm flex items-start gap-2">
+              <AlertCircle size={16} className="mt-0.5 shrink-0 text-red-400" /> {error}
+            </div>
+          ) : !preview ? (
+            <div className="text-sm text-slate-400 flex items-center gap-2 py-6 justify-center">
+              <RefreshCw size={16} className="animate-spin" /> Comparing with server data...
+            </div>
+          ) : (
+            <DiffView entries={preview.diff} />
+          )}
+
+          {protectedPhrase && (
+            <ConfirmPhraseInput
+              phrase={protectedPhrase}
+              value={typedPath}
+              onChange={setTypedPath}
+              reason={`This write touches protected path${protectedHits.length === 1 ? '' : 's'} ${protectedHits.map(p => `/${p}`).join(', ')}.`}
+            />
+          )}
+          {confirmPhrase && <ConfirmPhraseInput phrase={confirmPhrase} value={typed} onChange={setTyped} />}
+
+          <div className="flex gap-3">
+            <button
+              onClick={onCancel}
+              className="flex-1 py-3 bg-slate-800 hover:bg-slate-700 text-slate-300 font-bold rounded-xl transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => preview && phraseOk && onConfirm(preview)}
+              disabled={!preview || !phraseOk}
+              className="flex-[2] py-3 bg-emerald-600 hover:bg-emerald-500 text-white font-bold rounded-xl shadow-lg transition-colors flex justify-center items-center gap-2 disabled:opacity-50"
+            >
+              <Check size={18} strokeWidth={3} /> Confirm Write
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WriteConfirmDialog;
@@ -0,0 +1,46 @@
+import { WriteOperation } from '../types';
+import { readData } from './firebaseService';
+import { splitPath, joinPath, findInvalidKey } from './treeUtils';
+
+// Bulk actions on a selection of sibling nodes. Siblings never nest, so every batch here
+// compiles to one multi-path PATCH and lands atomically, as long as it fits MAX_ATOMIC_BYTES.
+// Only deletes always do; a large field value set on many nodes can run over and go in order.
+
+export type BulkAction = 'delete' | 'setField' | 'removeField';
+
+export const BULK_LABELS: Record<BulkAction, string> = {
+  delete: 'Delete',
+  setField: 'Set field',
+  removeField: 'Remove field',
+};
+
+// Why `field` can't be used as a path below each selected node, or null when it can
+export const validateField = (field: string): string | null => {
+  if (!splitPath(field).length) return 'Enter a field name or relative path';
+  const badKey = findInvalidKey(field);
+  if (badKey !== undefined) return `"${badKey}" contains a character Firebase doesn't allow in keys (. # $ [ ])`;
+  return null;
+};
+
+export const buildBulkOperations = (action: BulkAction, paths: string[], field: string = '', value?: any): WriteOperation[] => {
+  if (action === 'delete') return paths.map(path => ({ type: 'DELETE', path }));
+  if (action === 'removeField') return paths.map(path => ({ type: 'DELETE', path: joinPath(path, field) }));
+  return paths.map(path => ({ type: 'SET', path: joinPath(path, field), data: value }));
+};
+
+// "Delete 40 nodes under /sessions"
+export const describeBulk = (action: BulkAction, paths: string[], field: string = ''): string => {
+  const parent = splitPath(paths[0] || '').slice(0, -1).join('/');
+  const nodes = `${paths.length} node${paths.length === 1 ? '' : 's'} under /${parent}`;
+  if (action === 'delete') return `Delete ${nodes}`;
+  return `${BULK_LABELS[action]} "${splitPath(field).join('/')}" on ${nodes}`;
+};
+
+// Full values of the selected nodes keyed by their names, as one object to export
+export const readSelection = async (baseUrl: string, paths: string[]): Promise<Record<string, any>> => {
+  const result: Record<string, any> = {};
+  for (const path of paths) {
+    result[splitPath(path).pop() || path] = await readData(baseUrl, path);
+  }
+  return result;
+};
@@ -0,0 +1,83 @@
+import { WriteOperation } from '../types';
+import { compareKeys, joinPath, isBranch } from './treeUtils';
+import { deepEqual, diffValues, DiffKind } from './diffService';
+
+// Statuses read as "what applying the patch does to the target":
+// added = only in the source, removed = only in the target.
+export type CompareStatus = DiffKind | 'same';
+
+export interface CompareRow {
+  key: string;
+  path: string;   // relative to the compared roots
+  depth: number;
+  status: CompareStatus;
+  source: any;    // undefined when missing on that side
+  target: any;
+  branch: boolean; // has children on either side
+}
+
+const statusOf = (source: any, target: any): CompareStatus => {
+  const from = source === undefined ? null : source;
+  const to = target === undefined ? null : target;
+  if (deepEqual(from, to)) return 'same';
+  if (to === null) return 'added';
+  if (from === null) return 'removed';
+  return 'changed';
+};
+
+// Rows for the dual tree: the union of keys on both sides, children listed under an
+// expanded parent. Both columns share these rows, which keeps them aligned while scrolling.
+export const buildCompareRows = (
+  source: any,
+  target: any,
+  expanded: Set<string>,
+  onlyDifferences: boolean,
+  path: string = '',
+  depth: number = 0
+): CompareRow[] => {
+  const keys = Array.from(new Set([
+    ...(isBranch(source) ? Object.keys(source) : []),
+    ...(isBranch(target) ? Object.keys(target) : []),
+  ])).sort(compareKeys);
+
+  const rows: CompareRow[] = [];
+  for (const key of keys) {
+    const childPath = joinPath(path, key);
+    const left = isBranch(source) ? source[key] : undefined;
+    const right = isBranch(target) ? target[key] : undefined;
+    const status = statusOf(left, right);
+    if (onlyDifferences && status === 'same') continue;
+
+    const branch = isBranch(left) || isBranch(right);
+    rows.push({ key, path: childPath, depth, status, source: left, target: right, branch });
+    if (branch && expanded.has(childPath)) {
+      rows.push(...buildCompareRows(left, right, expanded, onlyDifferences, childPath, depth + 1));
+    }
+  }
+  return rows;
+};
+
+// Every branch that contains a difference, for "expand differences"
+export const collectChangedBranches = (source: any, target: any, path: string = ''): string[] => {
+  if (!isBranch(source) || !isBranch(target) || deepEqual(source, target)) return [];
+  const keys = Array.from(new Set([...Object.keys(source), ...Object.keys(target)]));
+  const out: string[] = [];
+  for (const key of keys) {
+    const childPath = joinPath(path, key);
+    if (statusOf(source[key], target[key]) === 'same') continue;
+    if (isBranch(source[key]) || isBranch(target[key])) out.push(childPath);
+    out.push(...collectChangedBranches(source[key], target[key], childPath));
+  }
+  return out;
+};
+
+// Operations that make `targetPath` match the source value, one per differing path.
+// They touch disjoint paths, so a batch compiles to a single multi-path update.
+export const buildSyncOperations = (source: any, target: any, targetPath: string): WriteOperation[] =>
+  diffValues(target, source, targetPath).map(entry => entry.kind === 'removed'
+    ? { type: 'DELETE', path: entry.path }
+    : { type: 'SET', path: entry.path, data: entry.after });
+
+// The same change in the REST multi-path update format, for copying elsewhere
+export const toMultiPathUpdate = (operations: WriteOperation[]): Record<string, any> =>
+  Object.fromEntries(operations.map(op => [`/${op.path}`, op.type === 'DELETE' ? null : op.data]));
@@ -0,0 +1,74 @@
+import { compareKeys, isBranch } from './treeUtils';
+
+export type DiffKind = 'added' | 'removed' | 'changed';
+
+export interface DiffEntry {
+  path: string;
+  kind: DiffKind;
+  before: any; // null when added
+  after: any;  // null when removed
+}
+
+export const deepEqual = (a: any, b: any): boolean => {
+  if (a === b) return true;
+  if (!isBranch(a) || !isBranch(b)) return false;
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  if (aKeys.length !== bKeys.length) return false;
+  return aKeys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]));
+};
+
+// Structural diff. Objects are compared key by key; a subtree that only exists on one
+// side is reported once at its root rather than leaf by leaf.
+export const diffValues = (before: any, after: any, path: string = ''): DiffEntry[] => {
+  const was = before === undefined ? null : before;
+  const now = after === undefined ? null : after;
+
+  if (deepEqual(was, now)) return [];
+  if (was === null) return [{ path, kind: 'added', before: null, after: now }];
+  if (now === null) return [{ path, kind: 'removed', before: was, after: null }];
+  if (!isBranch(was) || !isBranch(now)) return [{ path, kind: 'changed', before: was, after: now }];
+
+  const keys = Array.from(new Set([...Object.keys(was), ...Object.keys(now)])).sort(compareKeys);
+  return keys.flatMap(key => diffValues(was[key], now[key], path ? `${path}/${key}` : key));
+};
+
+export interface MergeResult {
+  value: any;
+  conflicts: string[]; // paths both sides changed differently; `mine` was kept there
+}
+
+// Three-way merge of two edits made from a common base. A key only one side changed takes
+// that side's value; objects both sides changed are merged key by key.
+export const mergeThreeWay = (base: any, theirs: any, mine: any, path: string = ''): MergeResult => {
+  const was = base === undefined ? null : base;
+  const their = theirs === undefined ? null : theirs;
+  const my = mine === undefined ? null : mine;
+
+  if (deepEqual(their, my) || deepEqual(was, their)) return { value: my, conflicts: [] };
+  if (deepEqual(was, my)) return { value: their, conflicts: [] };
+  if (!isBranch(their) || !isBranch(my)) return { value: my, conflicts: [path] };
+
+  const common = isBranch(was) ? was : {};
+  const value: Record<string, any> = {};
+  const conflicts: string[] = [];
+  const keys = Array.from(new Set([...Object.keys(common), ...Object.keys(their), ...Object.keys(my)])).sort(compareKeys);
+  for (const key of keys) {
+    const merged = mergeThreeWay(common[key], their[key], my[key], path ? `${path}/${key}` : key);
+    if (merged.value !== null) value[key] = merged.value;
+    conflicts.push(...merged.conflicts);
+  }
+  return { value: Object.keys(value).length ? value : null, conflicts };
+};
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+export const summarizeDiff = (entries: DiffEntry[]): DiffSummary => ({
+  added: entries.filter(e => e.kind === 'added').length,
+  removed: entries.filter(e => e.kind === 'removed').length,
+  changed: entries.filter(e => e.kind === 'changed').length,
+});
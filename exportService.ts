@@ -0,0 +1,122 @@
+import { readShallow, readData, readPage } from './firebaseService';
+import { compareKeys, isBranch } from './treeUtils';
+
+export type ExportFormat = 'json-pretty' | 'json-min' | 'ndjson' | 'csv';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mime: string }[] = [
+  { id: 'json-pretty', label: 'JSON (pretty)', extension: 'json', mime: 'application/json' },
+  { id: 'json-min', label: 'JSON (minified)', extension: 'json', mime: 'application/json' },
+  { id: 'ndjson', label: 'NDJSON (one child per line)', extension: 'ndjson', mime: 'application/x-ndjson' },
+  { id: 'csv', label: 'CSV (flattened children)', extension: 'csv', mime: 'text/csv' },
+];
+
+export const CHUNK_SIZE = 200;
+
+export interface ExportProgress {
+  loaded: number;
+  total: number;
+}
+
+// Downloads a subtree in key-ordered chunks of its top-level children, so a large collection
+// never comes back as one response. Only the top level is chunked: a node with CHUNK_SIZE
+// children or fewer is read in one request, and each chunk carries its children in full,
+// however large they are. `isCancelled` is checked between chunks.
+export const fetchInChunks = async (
+  baseUrl: string,
+  path: string,
+  onProgress: (progress: ExportProgress) => void,
+  isCancelled: () => boolean = () => false
+): Promise<any> => {
+  const shallow = await readShallow(baseUrl, path);
+  if (shallow === null || typeof shallow !== 'object') {
+    onProgress({ loaded: 1, total: 1 });
+    return shallow;
+  }
+
+  const keys = Object.keys(shallow).sort(compareKeys);
+  const total = keys.length;
+  if (total <= CHUNK_SIZE) {
+    const value = await readData(baseUrl, path);
+    onProgress({ loaded: total, total });
+    return value;
+  }
+
+  const result: Record<string, any> = {};
+  onProgress({ loaded: 0, total });
+  for (let i = 0; i < total; i += CHUNK_SIZE) {
+    if (isCancelled()) throw new Error("Export cancelled");
+    const chunk = await readPage(baseUrl, path, keys[i], CHUNK_SIZE);
+    Object.assign(result, chunk);
+    onProgress({ loaded: Math.min(i + CHUNK_SIZE, total), total });
+  }
+  return result;
+};
+
+// { a: { b: 1 } } -> { "a.b": 1 }. Arrays are flattened by index.
+export const flattenObject = (value: any, prefix: string = '', out: Record<string, any> = {}): Record<string, any> => {
+  if (value === null || typeof value !== 'object') {
+    out[prefix || 'value'] = value;
+    return out;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    flattenObject(child, prefix ? `${prefix}.${key}` : key, out);
+  }
+  return out;
+};
+
+const csvCell = (value: any): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const childEntries = (value: any): [string, any][] =>
+  isBranch(value) ? Object.entries(value).sort(([a], [b]) => compareKeys(a, b)) : [];
+
+// One {"key", "value"} object per child
+export const toNdjson = (value: any): string =>
+  childEntries(value).map(([key, child]) => JSON.stringify({ key, value: child })).join('\n') + '\n';
+
+// One row per child of a collection node, with nested fields flattened into dotted columns
+export const toCsv = (value: any): string => {
+  const rows = childEntries(value).map(([key, child]) => ({ key, fields: flattenObject(child) }));
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  for (const row of rows) {
+    for (const column of Object.keys(row.fields)) {
+      if (!seen.has(column)) {
+        seen.add(column);
+        columns.push(column);
+      }
+    }
+  }
+
+  const header = ['key', ...columns].map(csvCell).join(',');
+  const lines = rows.map(row => [row.key, ...columns.map(column => row.fields[column])].map(csvCell).join(','));
+  return [header, ...lines].join('\r\n') + '\r\n';
+};
+
+export const serialize = (value: any, format: ExportFormat): string => {
+  if (format === 'json-pretty') return JSON.stringify(value, null, 2);
+  if (format === 'json-min') return JSON.stringify(value);
+  if (format === 'ndjson') return toNdjson(value);
+  return toCsv(value);
+};
+
+// Name like "myapp_users_2026-10-19.csv"
+export const buildFilename = (label: string, path: string, format: ExportFormat): string => {
+  const extension = EXPORT_FORMATS.find(f => f.id === format)?.extension || 'txt';
+  const stem = [label, ...path.split('/').filter(Boolean)].join('_').replace(/[^a-z0-9_-]+/gi, '-');
+  return `${stem || 'export'}_${new Date().toISOString().slice(0, 10)}.${extension}`;
+};
+
+export const downloadFile = (filename: string, content: string, mime: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mime};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
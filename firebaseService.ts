@@ -1,133 +1,645 @@
+import { DbCredential, DataQuery } from '../types';
+import { ServerEvent } from './treeUtils';
+
+export const TOKEN_EXPIRED_MESSAGE = "🔑 Token Expired (401): Your credential has expired. Sign in again or paste a fresh token.";
+export const WRITE_CONFLICT_MESSAGE = "⚠️ Write Conflict (412): Someone else changed this data since it was loaded.";
+
+// A conditional write found the node changed. Carries what the server holds now.
+export class WriteConflictError extends Error {
+  path: string;
+  current: any;
+  etag: string;
+
+  constructor(path: string, current: any, etag: string) {
+    super(WRITE_CONFLICT_MESSAGE);
+    this.name = 'WriteConflictError';
+    this.path = path;
+    this.current = current;
+    this.etag = etag;
+  }
+}
+
+// All network access goes through this seam so tests can swap in a mock
+const defaultFetch: typeof fetch = (input, init) => fetch(input, init);
+let fetchImpl: typeof fetch = defaultFetch;
+
+export const setFetchImplementation = (impl?: typeof fetch) => {
+  fetchImpl = impl || defaultFetch;
+};
+
+const LOCAL_HOST = /^(localhost|127\.0\.0\.1|\[::1\]|0\.0\.0\.0)(:\d+)?(\/|$)/i;
+const EMULATOR_PORT = '9000';
+
+// A local host is always the emulator, however it was typed
+const isLocalHost = (input: string): boolean => LOCAL_HOST.test(input.trim().replace(/^https?:\/\//i, ''));
+
+// Realtime Database locations outside us-central1 are served from <instance>.<region>.firebasedatabase.app
+export const DATABASE_REGIONS = ['europe-west1', 'asia-southeast1'];
+
+const LEGACY_HOST = /^https?:\/\/([a-z0-9-]+)\.firebaseio\.com$/i;
+const REGIONAL_HOST = /^https?:\/\/([a-z0-9-]+)\.([a-z]+-[a-z]+\d+)\.firebasedatabase\.app$/i;
+const SHORT_REGIONAL = /^([a-z0-9-]+)\.([a-z]+-[a-z]+\d+)$/i;
+
 // Function to clean and normalize the URL
 export const cleanUrl = (input: string): string => {
   let url = input.trim();
+
+  // Emulator URLs carry the namespace as ?ns=, keep it apart from the path cleanup
+  const queryIndex = url.indexOf('?');
+  const query = queryIndex >= 0 ? url.slice(queryIndex + 1) : '';
+  if (queryIndex >= 0) url = url.slice(0, queryIndex);
+
   url = url.replace(/\/+$/, '');
   url = url.replace(/\.json$/, '');
+  url = url.replace(/\/+$/, '');
+
+  // The emulator only speaks plain HTTP, on its default port unless one is given
+  if (isLocalHost(url)) {
+    const bare = url.replace(/^https?:\/\//i, '');
+    const slash = bare.indexOf('/');
+    const host = slash >= 0 ? bare.slice(0, slash) : bare;
+    const ns = new URLSearchParams(query).get('ns');
+    const base = `http://${/:\d+$/.test(host) ? host : `${host}:${EMULATOR_PORT}`}${slash >= 0 ? bare.slice(slash) : ''}`;
+    return ns ? `${base}/?ns=${encodeURIComponent(ns)}` : base;
+  }
 
   const isProjectId = /^[a-z0-9-]+$/i.test(url);
   if (isProjectId) {
     return `https://${url}.firebaseio.com`;
   }
 
+  // "my-db-default-rtdb.europe-west1" is shorthand for the regional host
+  const shortRegional = url.match(SHORT_REGIONAL);
+  if (shortRegional) {
+    return `https://${shortRegional[1]}.${shortRegional[2]}.firebasedatabase.app`;
+  }
+
   if (!url.startsWith('http://') && !url.startsWith('https://')) {
     url = `https://${url}`;
   }
 
-  return url;
+  const ns = new URLSearchParams(query).get('ns');
+  return ns ? `${url}/?ns=${encodeURIComponent(ns)}` : url;
 };
 
-// Helper to safely encode paths
-const buildEndpoint = (baseUrl: string, path: string): string => {
+// Base URL for a local Realtime Database emulator
+export const buildEmulatorUrl = (host: string, port: number | string, namespace: string): string => {
+  const cleanHost = host.trim().replace(/^https?:\/\//, '').replace(/\/+$/, '') || '127.0.0.1';
+  return `http://${cleanHost}:${String(port).trim() || EMULATOR_PORT}/?ns=${encodeURIComponent(namespace.trim())}`;
+};
+
+// Splits a cleaned base URL into its origin and any namespace query
+const splitBase = (baseUrl: string): { origin: string; params: string[] } => {
   const cleanBase = cleanUrl(baseUrl);
-  if (!path) return `${cleanBase}/.json`;
+  const [origin, query] = cleanBase.split('/?');
+  return { origin, params: query ? [query] : [] };
+};
+
+export const isEmulatorUrl = (baseUrl: string): boolean => /[?&]ns=/.test(cleanUrl(baseUrl));
+
+export interface DatabaseLocation {
+  instance: string;        // e.g. "my-app-default-rtdb"
+  region: string | null;   // null for legacy us-central1 hosts
+  projectId: string;       // instance name without the "-default-rtdb" suffix
+}
+
+// Works out instance and region from a Firebase-hosted database URL
+export const parseDatabaseUrl = (baseUrl: string): DatabaseLocation | null => {
+  const { origin } = splitBase(baseUrl);
+  const legacy = origin.match(LEGACY_HOST);
+  const regional = origin.match(REGIONAL_HOST);
+  const instance = legacy?.[1] || regional?.[1];
+  if (!instance) return null;
+
+  return {
+    instance,
+    region: regional ? regional[2] : null,
+    projectId: instance.replace(/-default-rtdb$/, ''),
+  };
+};
+
+// A bare ID without any dots or scheme, which could live on several hosts
+export const isBareDatabaseId = (input: string): boolean => /^[a-z0-9-]+$/i.test(input.trim().replace(/\/+$/, '')) && !isLocalHost(input);
+
+// Every host a bare project or instance ID could be served from, most likely first
+export const getCandidateUrls = (id: string): string[] => {
+  const name = id.trim().replace(/\/+$/, '').toLowerCase();
+  const instances = name.endsWith('-default-rtdb') ? [name] : [`${name}-default-rtdb`, name];
+
+  const urls: string[] = [];
+  for (const instance of instances) {
+    urls.push(`https://${instance}.firebaseio.com`);
+    for (const region of DATABASE_REGIONS) {
+      urls.push(`https://${instance}.${region}.firebasedatabase.app`);
+    }
+  }
+  return urls;
+};
+
+// Short name for headers and labels
+export const getDatabaseLabel = (baseUrl: string): string => {
+  if (!baseUrl) return '';
+  const { origin, params } = splitBase(baseUrl);
+  if (params.length) {
+    const ns = new URLSearchParams(params[0]).get('ns');
+    return `${ns} (emulator)`;
+  }
+  const location = parseDatabaseUrl(baseUrl);
+  if (location) return location.region ? `${location.instance} (${location.region})` : location.instance;
+  return origin.replace(/^https?:\/\//, '').split('.')[0];
+};
+
+const PUSH_CHARS = '-0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ_abcdefghijklmnopqrstuvwxyz';
+let lastPushTime = 0;
+let lastRandomChars: number[] = [];
+
+// Client-side push ID, same scheme as the Firebase SDKs: 8 characters of millisecond timestamp
+// then 12 random ones, so IDs sort by creation time. Within the same millisecond the random
+// part is incremented instead, keeping IDs generated in one burst in order too. Each character
+// that overflows resets to 0 and carries into the one before it; a carry past the first moves
+// the timestamp on by a millisecond, so the next ID still sorts after the last.
+export const generatePushId = (): string => {
+  const now = Date.now();
+  if (now > lastPushTime) {
+    lastPushTime = now;
+    lastRandomChars = Array.from({ length: 12 }, () => Math.floor(Math.random() * 64));
+  } else {
+    let i = 11;
+    for (; i >= 0 && lastRandomChars[i] === 63; i--) lastRandomChars[i] = 0;
+    if (i >= 0) lastRandomChars[i]++;
+    else lastPushTime++;
+  }
+
+  let time = lastPushTime;
+  let timeChars = '';
+  for (let i = 0; i < 8; i++) {
+    timeChars = PUSH_CHARS.charAt(time % 64) + timeChars;
+    time = Math.floor(time / 64);
+  }
+  return timeChars + lastRandomChars.map(index => PUSH_CHARS.charAt(index)).join('');
+};
+
+// Credentials are registered per database so every call site can keep passing a plain URL
+const credentials = new Map<string, DbCredential>();
+
+export const setCredential = (baseUrl: string, credential?: DbCredential) => {
+  const key = cleanUrl(baseUrl);
+  if (!credential || credential.type === 'none') credentials.delete(key);
+  else credentials.set(key, credential);
+};
+
+export const getCredential = (baseUrl: string): DbCredential | undefined => credentials.get(cleanUrl(baseUrl));
+
+export const READ_ONLY_MESSAGE = "⛔ Read-only Mode: Writes to this connection are blocked. Turn off read-only to make changes.";
+
+// Connections in safe mode. Every PUT, PATCH and DELETE below checks this first,
+// so nothing that writes through this module can get past it.
+const readOnlyUrls = new Set<string>();
+
+export const setReadOnly = (baseUrl: string, readOnly: boolean) => {
+  if (readOnly) readOnlyUrls.add(cleanUrl(baseUrl));
+  else readOnlyUrls.delete(cleanUrl(baseUrl));
+};
+
+export const isReadOnly = (baseUrl: string): boolean => readOnlyUrls.has(cleanUrl(baseUrl));
+
+export const assertWritable = (baseUrl: string) => {
+  if (isReadOnly(baseUrl)) throw new Error(READ_ONLY_MESSAGE);
+};
+
+// Reads the `exp` claim of a JWT. Returns null for opaque tokens.
+const getTokenExpiry = (token: string): number | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  try {
+    const payload = JSON.parse(atob(parts[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isTokenExpiredError = (error: any): boolean => !!error?.message?.startsWith('🔑');
+
+// Query parameters that carry the credential
+const authParams = (baseUrl: string): string[] => {
+  const credential = getCredential(baseUrl);
+  if (!credential || credential.type === 'none') return [];
+
+  if (credential.type === 'idToken') {
+    const expiry = getTokenExpiry(credential.token);
+    if (expiry !== null && expiry <= Date.now()) throw new Error(TOKEN_EXPIRED_MESSAGE);
+    return [`auth=${encodeURIComponent(credential.token)}`];
+  }
+  if (credential.type === 'accessToken') {
+    return credential.useHeader ? [] : [`access_token=${encodeURIComponent(credential.token)}`];
+  }
+  return [`auth=${encodeURIComponent(credential.secret)}`];
+};
+
+// Headers that carry the credential (OAuth2 tokens only)
+const authHeaders = (baseUrl: string): Record<string, string> => {
+  const credential = getCredential(baseUrl);
+  if (credential?.type === 'accessToken' && credential.useHeader) {
+    return { Authorization: `Bearer ${credential.token}` };
+  }
+  return {};
+};
+
+// Helper to safely encode paths
+const buildEndpoint = (baseUrl: string, path: string, params: string[] = [], withAuth: boolean = true): string => {
+  const base = splitBase(baseUrl);
+  const query = [...base.params, ...params, ...(withAuth ? authParams(baseUrl) : [])];
+  const suffix = query.length ? `?${query.join('&')}` : '';
   
   // Clean path: remove leading slashes to prevent double slashes
-  const cleanPath = path.replace(/^\/+/, '');
+  const cleanPath = path.replace(/^\/+/, '').replace(/\/+$/, '');
+  if (!cleanPath) return `${base.origin}/.json${suffix}`;
+
   const encodedPath = cleanPath.split('/').map(segment => encodeURIComponent(segment)).join('/');
-  return `${cleanBase}/${encodedPath}.json`;
+  return `${base.origin}/${encodedPath}.json${suffix}`;
+};
+
+// The "error" string Firebase puts in failed responses, if any
+const readErrorDetail = async (res: Response): Promise<string> => {
+  try {
+    const body = await res.json();
+    return typeof body?.error === 'string' ? body.error : '';
+  } catch {
+    // Body was empty or not JSON
+    return '';
+  }
+};
+
+// Firebase names the right host when a database is addressed in the wrong region
+const REGION_HINT = /https:\/\/[a-z0-9-]+\.[a-z]+-[a-z]+\d+\.firebasedatabase\.app/i;
+
+// Turns a failed response into an error, telling an expired token apart from a rules denial
+const toError = async (res: Response, fallback: string, deniedMessage: string = "Permission Denied (401)"): Promise<Error> => {
+  const detail = await readErrorDetail(res);
+
+  if (res.status === 401 && /expired/i.test(detail)) return new Error(TOKEN_EXPIRED_MESSAGE);
+  if (res.status === 401) return new Error(deniedMessage);
+  return new Error(`${fallback}: ${detail || res.statusText}`);
+};
+
+// A 412 to an if-match write carries the current value and its ETag
+const toConflict = async (res: Response, path: string): Promise<WriteConflictError> => {
+  let current: any = null;
+  try {
+    current = await res.json();
+  } catch {
+    // Body was empty or not JSON
+  }
+  return new WriteConflictError(path, current, res.headers.get('ETag') || '');
 };
 
 // Check connection
 export const checkConnection = async (url: string): Promise<boolean> => {
-  const target = `${cleanUrl(url)}/.json?shallow=true`;
-  
   try {
+    const target = buildEndpoint(url, '', ['shallow=true']);
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 8000);
 
-    const res = await fetch(target, { 
+    const res = await fetchImpl(target, { 
       signal: controller.signal,
+      headers: authHeaders(url),
       cache: 'no-store' // Prevent caching
     });
     clearTimeout(timeoutId);
 
     if (res.ok) return true;
 
-    if (res.status === 401) throw new Error("⛔ Permission Denied (401): Database rules prevent reading.");
-    if (res.status === 404) throw new Error("❌ Database Not Found (404): Check your Project ID.");
+    if (res.status === 401) throw await toError(res, '', "⛔ Permission Denied (401): Database rules prevent reading.");
+    if (res.status === 404) {
+      const hint = (await readErrorDetail(res)).match(REGION_HINT);
+      if (hint) throw new Error(`❌ Database Not Found (404): This database lives at ${hint[0]}`);
+      throw new Error("❌ Database Not Found (404): Check your Project ID.");
+    }
     if (res.status === 400) throw new Error("⚠️ Bad Request (400): Invalid URL format.");
 
     throw new Error(`⚠️ Connection Error: ${res.status}`);
   } catch (error: any) {
     if (error.name === 'AbortError') throw new Error("⏱️ Timeout: Server took too long.");
-    if (error.message.startsWith('⛔') || error.message.startsWith('❌') || error.message.startsWith('⚠️')) throw error;
+    if (error.message.startsWith('⛔') || error.message.startsWith('❌') || error.message.startsWith('⚠️') || error.message.startsWith('🔑')) throw error;
     throw new Error(`🌐 Network Error: ${error.message}`);
   }
 };
 
+export interface ResolvedDatabase {
+  url: string;       // the host that answered
+  tried: string[];   // every host probed, in order
+}
+
+// Probes candidate hosts for a bare ID and returns the first one that answers.
+// A denial still counts as an answer: the database exists, the credential is the problem.
+export const resolveDatabaseUrl = async (input: string, credential?: DbCredential): Promise<ResolvedDatabase> => {
+  if (isLocalHost(input) && !isEmulatorUrl(input)) {
+    throw new Error(`⚠️ The local emulator needs a namespace: use localhost:${EMULATOR_PORT}/?ns=<database name>, or the Local Emulator tab.`);
+  }
+  const queue = isBareDatabaseId(input) ? getCandidateUrls(input) : [cleanUrl(input)];
+  const tried: string[] = [];
+
+  while (queue.length) {
+    const candidate = queue.shift() as string;
+    if (tried.includes(candidate)) continue;
+    tried.push(candidate);
+
+    setCredential(candidate, credential);
+    try {
+      await checkConnection(candidate);
+      return { url: candidate, tried };
+    } catch (error: any) {
+      // Denials, expired tokens and bad requests mean this host is the database
+      const notHere = error.message.startsWith('❌') || error.message.startsWith('🌐') || error.message.startsWith('⏱️');
+      if (!notHere) throw error;
+
+      setCredential(candidate);
+      const hint = error.message.match(REGION_HINT);
+      if (hint) queue.unshift(hint[0]);
+      else if (tried.length === 1 && queue.length === 0) throw error;
+    }
+  }
+
+  throw new Error(`❌ Database Not Found (404): No database answered at ${tried.map(url => url.replace('https://', '')).join(', ')}.`);
+};
+
 // Read data
 export const readData = async (baseUrl: string, path: string = ''): Promise<any> => {
-  const endpoint = buildEndpoint(baseUrl, path);
-  
   try {
-    const res = await fetch(endpoint, { cache: 'no-store' });
-    if (!res.ok) {
-      if (res.status === 401) throw new Error("Permission Denied (401)");
-      throw new Error(`Failed to read data: ${res.statusText}`);
-    }
+    const endpoint = buildEndpoint(baseUrl, path);
+    const res = await fetchImpl(endpoint, { headers: authHeaders(baseUrl), cache: 'no-store' });
+    if (!res.ok) throw await toError(res, "Failed to read data");
+    return await res.json();
+  } catch (error: any) {
+    throw new Error(error.message || "Failed to fetch data");
+  }
+};
+
+export interface VersionedValue {
+  value: any;
+  etag: string; // empty when the server didn't expose one
+}
+
+// Read data together with its ETag, for a later conditional write
+export const readVersioned = async (baseUrl: string, path: string = ''): Promise<VersionedValue> => {
+  try {
+    const endpoint = buildEndpoint(baseUrl, path);
+    const res = await fetchImpl(endpoint, { headers: { 'X-Firebase-ETag': 'true', ...authHeaders(baseUrl) }, cache: 'no-store' });
+    if (!res.ok) throw await toError(res, "Failed to read data");
+    return { value: await res.json(), etag: res.headers.get('ETag') || '' };
+  } catch (error: any) {
+    throw new Error(error.message || "Failed to fetch data");
+  }
+};
+
+// Read one level only: nested objects come back as `true`
+export const readShallow = async (baseUrl: string, path: string = ''): Promise<any> => {
+  try {
+    const endpoint = buildEndpoint(baseUrl, path, ['shallow=true']);
+    const res = await fetchImpl(endpoint, { headers: authHeaders(baseUrl), cache: 'no-store' });
+    if (!res.ok) throw await toError(res, "Failed to read data");
     return await res.json();
   } catch (error: any) {
     throw new Error(error.message || "Failed to fetch data");
   }
 };
 
-// Write (PUT)
-export const writeData = async (baseUrl: string, path: string, data: any): Promise<void> => {
-  const endpoint = buildEndpoint(baseUrl, path);
+// Query parameters in the JSON-encoded form the REST API expects
+const buildQueryParams = (query: DataQuery): string[] => {
+  const encode = (value: any) => encodeURIComponent(JSON.stringify(value));
+  // $key bounds must be strings
+  const bound = (value: any) => encode(query.orderBy === '$key' && value !== null ? String(value) : value);
+
+  const params = [`orderBy=${encode(query.orderBy)}`];
+  if (query.equalTo !== undefined) params.push(`equalTo=${bound(query.equalTo)}`);
+  if (query.startAt !== undefined) params.push(`startAt=${bound(query.startAt)}`);
+  if (query.endAt !== undefined) params.push(`endAt=${bound(query.endAt)}`);
+  if (query.limitToFirst !== undefined) params.push(`limitToFirst=${query.limitToFirst}`);
+  if (query.limitToLast !== undefined) params.push(`limitToLast=${query.limitToLast}`);
+  return params;
+};
+
+// The REST URL for a query, without credentials so it is safe to share
+export const getQueryUrl = (baseUrl: string, path: string, query: DataQuery): string =>
+  buildEndpoint(baseUrl, path, buildQueryParams(query), false);
+
+// Read the children of `path` that match a query
+export const readQuery = async (baseUrl: string, path: string, query: DataQuery): Promise<any> => {
+  try {
+    const endpoint = buildEndpoint(baseUrl, path, buildQueryParams(query));
+    const res = await fetchImpl(endpoint, { headers: authHeaders(baseUrl), cache: 'no-store' });
+    if (!res.ok) throw await toError(res, "Query failed");
+    return await res.json();
+  } catch (error: any) {
+    throw new Error(error.message || "Query failed");
+  }
+};
+
+// Read up to `limit` children in key order, starting at `startKey` (inclusive)
+export const readPage = (baseUrl: string, path: string, startKey: string | null, limit: number): Promise<any> =>
+  readQuery(baseUrl, path, { orderBy: '$key', limitToFirst: limit, ...(startKey !== null ? { startAt: startKey } : {}) });
+
+export interface MissingIndex {
+  path: string;     // where the rule goes, e.g. "/dinosaurs"
+  field: string;    // what to index, e.g. "height"
+  snippet: string;  // rules JSON to paste
+}
+
+// Parses 'Index not defined, add ".indexOn": "height", for path "/dinosaurs", to the rules'
+export const parseIndexError = (message: string): MissingIndex | null => {
+  const match = message.match(/Index not defined, add "\.indexOn": "([^"]+)", for path "([^"]*)"/);
+  if (!match) return null;
+
+  const [, field, path] = match;
+  let rule: any = { '.indexOn': field };
+  for (const segment of path.split('/').filter(Boolean).reverse()) {
+    rule = { [segment]: rule };
+  }
+  return { path: path || '/', field, snippet: JSON.stringify({ rules: rule }, null, 2) };
+};
 
+// Write (PUT). With an ETag the write only lands if the node is unchanged.
+export const writeData = async (baseUrl: string, path: string, data: any, etag?: string): Promise<void> => {
+  assertWritable(baseUrl);
   try {
-    const res = await fetch(endpoint, {
+    const endpoint = buildEndpoint(baseUrl, path);
+    const res = await fetchImpl(endpoint, {
       method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...(etag ? { 'if-match': etag } : {}), ...authHeaders(baseUrl) },
       body: JSON.stringify(data),
       cache: 'no-store'
     });
 
-    if (!res.ok) {
-        if (res.status === 401) throw new Error("Permission Denied (401)");
-        throw new Error(`Failed to write data: ${res.statusText}`);
-    }
+    if (res.status === 412) throw await toConflict(res, path);
+    if (!res.ok) throw await toError(res, "Failed to write data");
   } catch (error: any) {
+    if (error instanceof WriteConflictError) throw error;
     throw new Error(error.message || "Failed to write data");
   }
 };
 
 // Update (PATCH)
 export const updateData = async (baseUrl: string, path: string, data: any): Promise<void> => {
-  const endpoint = buildEndpoint(baseUrl, path);
-
+  assertWritable(baseUrl);
   try {
-    const res = await fetch(endpoint, {
+    const endpoint = buildEndpoint(baseUrl, path);
+    const res = await fetchImpl(endpoint, {
       method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...authHeaders(baseUrl) },
       body: JSON.stringify(data),
       cache: 'no-store'
     });
 
-    if (!res.ok) {
-        if (res.status === 401) throw new Error("Permission Denied (401)");
-        throw new Error(`Failed to update data: ${res.statusText}`);
-    }
+    if (!res.ok) throw await toError(res, "Failed to update data");
   } catch (error: any) {
     throw new Error(error.message || "Failed to update data");
   }
 };
 
-// Delete (DELETE)
-export const deleteData = async (baseUrl: string, path: string): Promise<void> => {
-  const endpoint = buildEndpoint(baseUrl, path);
+// Push (POST). The server picks the key and returns it as `name`.
+export const pushData = async (baseUrl: string, path: string, data: any): Promise<string> => {
+  assertWritable(baseUrl);
+  try {
+    const endpoint = buildEndpoint(baseUrl, path);
+    const res = await fetchImpl(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders(baseUrl) },
+      body: JSON.stringify(data),
+      cache: 'no-store'
+    });
+
+    if (!res.ok) throw await toError(res, "Failed to push data");
+    const body = await res.json();
+    if (typeof body?.name !== 'string') throw new Error("Failed to push data: the server did not return a key");
+    return body.name;
+  } catch (error: any) {
+    throw new Error(error.message || "Failed to push data");
+  }
+};
 
+// Delete (DELETE). With an ETag the delete only lands if the node is unchanged.
+export const deleteData = async (baseUrl: string, path: string, etag?: string): Promise<void> => {
+  assertWritable(baseUrl);
   try {
-    const res = await fetch(endpoint, {
+    const endpoint = buildEndpoint(baseUrl, path);
+    const res = await fetchImpl(endpoint, {
       method: 'DELETE',
+      headers: { ...(etag ? { 'if-match': etag } : {}), ...authHeaders(baseUrl) },
       cache: 'no-store'
     });
 
-    if (!res.ok) {
-        if (res.status === 401) throw new Error("Permission Denied (401): Delete blocked.");
-        throw new Error(`Failed to delete data: ${res.statusText}`);
-    }
+    if (res.status === 412) throw await toConflict(res, path);
+    if (!res.ok) throw await toError(res, "Failed to delete data", "Permission Denied (401): Delete blocked.");
   } catch (error: any) {
+    if (error instanceof WriteConflictError) throw error;
     throw new Error(error.message || "Failed to delete data");
   }
-};
\ No newline at end of file
+};
+
+const RULES_PATH = '.settings/rules';
+const RULES_DENIED = "⛔ Permission Denied (401): Rules need an admin credential (database secret or OAuth2 token).";
+
+// Security rules, as text so comments survive the round trip
+export const readRules = async (baseUrl: string): Promise<string> => {
+  try {
+    const endpoint = buildEndpoint(baseUrl, RULES_PATH);
+    const res = await fetchImpl(endpoint, { headers: authHeaders(baseUrl), cache: 'no-store' });
+    if (!res.ok) throw await toError(res, "Failed to read rules", RULES_DENIED);
+    return await res.text();
+  } catch (error: any) {
+    throw new Error(error.message || "Failed to read rules");
+  }
+};
+
+export const writeRules = async (baseUrl: string, text: string): Promise<void> => {
+  assertWritable(baseUrl);
+  try {
+    const endpoint = buildEndpoint(baseUrl, RULES_PATH);
+    const res = await fetchImpl(endpoint, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...authHeaders(baseUrl) },
+      body: text,
+      cache: 'no-store'
+    });
+
+    if (!res.ok) throw await toError(res, "Failed to deploy rules", RULES_DENIED);
+  } catch (error: any) {
+    throw new Error(error.message || "Failed to deploy rules");
+  }
+};
+
+export interface StreamHandlers {
+  onEvent: (event: ServerEvent) => void;
+  onOpen?: () => void;
+  onError?: (error: Error) => void;
+}
+
+// Subscribe to live changes (REST streaming). Reads the event stream through fetch rather
+// than EventSource so header credentials and the fetch seam keep working. Returns an unsubscribe.
+export const subscribeToPath = (baseUrl: string, path: string, handlers: StreamHandlers): (() => void) => {
+  const controller = new AbortController();
+
+  const dispatch = (chunk: string) => {
+    let type = '';
+    let payload = '';
+    for (const line of chunk.split('\n')) {
+      if (line.startsWith('event:')) type = line.slice(6).trim();
+      else if (line.startsWith('data:')) payload += line.slice(5).trim();
+    }
+
+    if (type === 'put' || type === 'patch') {
+      let event: { path: string; data: any };
+      try {
+        event = JSON.parse(payload);
+      } catch {
+        // Skipping the frame would leave the live view silently out of date, so stop the stream
+        controller.abort();
+        handlers.onError?.(new Error(`⚠️ Live stream sent an unreadable ${type} event. Live sync stopped; reload to see the latest data.`));
+        return;
+      }
+      handlers.onEvent({ event: type, path: event.path, data: event.data });
+    } else if (type === 'cancel') {
+      controller.abort();
+      handlers.onError?.(new Error("⛔ Stream Cancelled: Database rules no longer allow reading this path."));
+    } else if (type === 'auth_revoked') {
+      controller.abort();
+      handlers.onError?.(new Error(TOKEN_EXPIRED_MESSAGE));
+    }
+    // keep-alive needs no handling
+  };
+
+  (async () => {
+    try {
+      const res = await fetchImpl(buildEndpoint(baseUrl, path), {
+        headers: { Accept: 'text/event-stream', ...authHeaders(baseUrl) },
+        signal: controller.signal,
+        cache: 'no-store'
+      });
+      if (!res.ok) throw await toError(res, "Failed to open live stream");
+      if (!res.body) throw new Error("Live streaming is not supported by this browser");
+      handlers.onOpen?.();
+
+      const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value.replace(/\r\n/g, '\n');
+
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary >= 0 && !controller.signal.aborted) {
+          dispatch(buffer.slice(0, boundary));
+          buffer = buffer.slice(boundary + 2);
+          boundary = buffer.indexOf('\n\n');
+        }
+      }
+
+      if (!controller.signal.aborted) handlers.onError?.(new Error("🌐 Live stream closed by server"));
+    } catch (error: any) {
+      if (!controller.signal.aborted) handlers.onError?.(new Error(error.message || "Live stream failed"));
+    }
+  })();
+
+  return () => controller.abort();
+};
@@ -0,0 +1,33 @@
+import { splitPath } from './treeUtils';
+
+// The focused subtree lives in the URL hash (#/users/uid_123) so views can be bookmarked and shared
+
+export const readFocusHash = (): string => {
+  const raw = window.location.hash.replace(/^#\/?/, '');
+  try {
+    return splitPath(raw).map(decodeURIComponent).join('/');
+  } catch {
+    return splitPath(raw).join('/');
+  }
+};
+
+export const buildFocusHash = (path: string): string =>
+  splitPath(path).length ? `#/${splitPath(path).map(encodeURIComponent).join('/')}` : '';
+
+// Pushes a history entry so the back button walks out of a focused subtree
+export const writeFocusHash = (path: string) => {
+  const hash = buildFocusHash(path);
+  if (hash === window.location.hash) return;
+  window.history.pushState(null, '', hash || `${window.location.pathname}${window.location.search}`);
+};
+
+export interface Crumb {
+  label: string;
+  path: string;
+}
+
+// "/ > users > uid_123 > settings"
+export const getBreadcrumb = (path: string): Crumb[] => {
+  const keys = splitPath(path);
+  return [{ label: '/', path: '' }, ...keys.map((key, i) => ({ label: key, path: keys.slice(0, i + 1).join('/') }))];
+};
@@ -30,7 +30,7 @@ export const generateDataWithAI = async (prompt: string, context: { currentData?
 
       Rules:
       - Return a JSON object with a "message" (conversational response) and "actions" (array of operations).
-      - "path" must be relative to the database root. If the user provided a basePath, relative to that.
+      - "path" must always be the full path from the database root. If a CONTEXT PATH is given, paths under it start with that prefix.
       - If the user asks to delete something, generate a DELETE action for that specific path.
       - If the user asks to create something, generate a SET action.
       - If the user provided 'rootKeys', use them to understand the database structure (e.g., if 'users' exists, and user says "delete user 1", path might be "users/1").
@@ -54,7 +54,7 @@ export const generateDataWithAI = async (prompt: string, context: { currentData?
     if (context.currentData) {
       contextStr += `CURRENT DATA AT PATH:\n${JSON.stringify(context.currentData)}\n`;
     } else if (context.rootKeys && context.rootKeys.length > 0) {
-      contextStr += `EXISTING ROOT KEYS (Database Structure):\n${JSON.stringify(context.rootKeys)}\n`;
+      contextStr += `${context.basePath ? 'EXISTING KEYS AT PATH' : 'EXISTING ROOT KEYS'} (Database Structure):\n${JSON.stringify(context.rootKeys)}\n`;
     }
 
     const response = await ai.models.generateContent({
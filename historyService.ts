@@ -0,0 +1,64 @@
+import { WriteOperation } from '../types';
+import { buildRestoreOperations } from './mutationService';
+import { runRequest, listByDatabase } from './localDb';
+
+// Oldest entries past this are dropped per database
+export const HISTORY_LIMIT = 200;
+
+export interface HistoryEntry {
+  id?: number;
+  dbUrl: string;
+  title: string;
+  timestamp: number;
+  operations: WriteOperation[];
+  preImages: Record<string, any>; // server value at each written path before the write
+  undone: boolean;
+}
+
+// Newest first
+export const listHistory = (dbUrl: string): Promise<HistoryEntry[]> => listByDatabase<HistoryEntry>('history', dbUrl);
+
+export const recordMutation = async (
+  dbUrl: string,
+  title: string,
+  operations: WriteOperation[],
+  preImages: Record<string, any>
+): Promise<HistoryEntry> => {
+  const entry: HistoryEntry = { dbUrl, title, timestamp: Date.now(), operations, preImages, undone: false };
+  entry.id = await runRequest<IDBValidKey>('history', 'readwrite', store => store.add(entry)) as number;
+
+  const entries = await listHistory(dbUrl);
+  for (const old of entries.slice(HISTORY_LIMIT)) {
+    await deleteEntry(old);
+  }
+  return entry;
+};
+
+export const saveEntry = async (entry: HistoryEntry): Promise<HistoryEntry> => {
+  await runRequest('history', 'readwrite', store => store.put(entry));
+  return entry;
+};
+
+export const markUndone = (entry: HistoryEntry, undone: boolean): Promise<HistoryEntry> => saveEntry({ ...entry, undone });
+
+export const deleteEntry = (entry: HistoryEntry): Promise<undefined> => runRequest('history', 'readwrite', store => store.delete(entry.id!));
+
+export const clearHistory = async (dbUrl: string): Promise<void> => {
+  for (const entry of await listHistory(dbUrl)) {
+    await deleteEntry(entry);
+  }
+};
+
+// Writes that put every touched path back to its pre-image
+export const invertEntry = (entry: HistoryEntry): WriteOperation[] => buildRestoreOperations(entry.preImages);
+
+// Ctrl+Z target: the newest entry still applied
+export const findUndoTarget = (entries: HistoryEntry[]): HistoryEntry | undefined =>
+  entries.find(entry => !entry.undone);
+
+// Ctrl+Shift+Z target: the oldest of the undone entries newer than anything still applied
+export const findRedoTarget = (entries: HistoryEntry[]): HistoryEntry | undefined => {
+  const newestApplied = entries.findIndex(entry => !entry.undone);
+  const redoable = newestApplied === -1 ? entries : entries.slice(0, newestApplied);
+  return redoable[redoable.length - 1];
+};
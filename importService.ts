@@ -0,0 +1,133 @@
+import { WriteOperation } from '../types';
+import { VersionedValue } from './firebaseService';
+import { MAX_ATOMIC_BYTES } from './mutationService';
+import { isBranch } from './treeUtils';
+
+export type ImportStrategy = 'replace' | 'merge' | 'add-only';
+
+export const IMPORT_STRATEGIES: { id: ImportStrategy; label: string; description: string }[] = [
+  { id: 'replace', label: 'Replace (PUT)', description: 'The target becomes exactly the file. Existing children not in the file are deleted.' },
+  { id: 'merge', label: 'Merge (PATCH)', description: 'Top-level children in the file overwrite their counterparts. Others are left alone.' },
+  { id: 'add-only', label: 'Add only', description: 'Only children that do not exist yet are written. Existing keys are skipped.' },
+];
+
+// Roughly how much JSON goes into one PATCH request. Imports bigger than this are sent as
+// several batches, which the write pipeline runs in order and rolls back if one fails.
+export const BATCH_BYTES = MAX_ATOMIC_BYTES;
+
+const isJson = (text: string): boolean => {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Accepts a JSON document, or NDJSON as produced by the exporter ({"key", "value"} per line).
+// NDJSON lines without a key are numbered by line.
+export const parseImportText = (text: string, filename: string = ''): any => {
+  const trimmed = text.trim();
+  const firstLine = trimmed.split(/\r?\n/)[0];
+
+  if (!/\.(ndjson|jsonl)$/i.test(filename)) {
+    try {
+      return JSON.parse(trimmed);
+    } catch (e: any) {
+      // Several complete JSON values, one per line, is NDJSON. Anything else is broken JSON.
+      if (firstLine === trimmed || !isJson(firstLine)) throw new Error(`Invalid JSON: ${e.message}`);
+    }
+  }
+
+  const result: Record<string, any> = {};
+  trimmed.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    let parsed: any;
+    try {
+      parsed = JSON.parse(line);
+    } catch (e: any) {
+      throw new Error(`Invalid NDJSON on line ${index + 1}: ${e.message}`);
+    }
+    if (parsed && typeof parsed === 'object' && typeof parsed.key === 'string' && 'value' in parsed) {
+      result[parsed.key] = parsed.value;
+    } else {
+      result[String(index)] = parsed;
+    }
+  });
+  return result;
+};
+
+// What the target will look like once the import is applied
+export const previewImport = (current: any, payload: any, strategy: ImportStrategy): any => {
+  if (strategy === 'replace' || !isBranch(payload) || !isBranch(current)) {
+    return strategy === 'add-only' && current !== null ? current : payload;
+  }
+  if (strategy === 'merge') return { ...current, ...payload };
+
+  const added: Record<string, any> = { ...current };
+  for (const [key, value] of Object.entries(payload)) {
+    if (!(key in current)) added[key] = value;
+  }
+  return added;
+};
+
+// The multi-path update (child key -> value, null deletes) that applies the import.
+// Returns null when the payload isn't an object and has to be written with a single PUT.
+export const buildImportUpdates = (current: any, payload: any, strategy: ImportStrategy): Record<string, any> | null => {
+  if (!isBranch(payload)) return null;
+
+  const existing = isBranch(current) ? current : {};
+  const updates: Record<string, any> = {};
+  for (const [key, value] of Object.entries(payload)) {
+    if (strategy === 'add-only' && key in existing) continue;
+    updates[key] = value;
+  }
+  if (strategy === 'replace') {
+    for (const key of Object.keys(existing)) {
+      if (!(key in payload)) updates[key] = null;
+    }
+  }
+  return updates;
+};
+
+// Splits an update map into PATCH-sized groups. A single oversized child gets a batch of its own.
+export const splitIntoBatches = (updates: Record<string, any>, maxBytes: number = BATCH_BYTES): Record<string, any>[] => {
+  const batches: Record<string, any>[] = [];
+  let batch: Record<string, any> = {};
+  let size = 0;
+
+  for (const [key, value] of Object.entries(updates)) {
+    const entrySize = key.length + JSON.stringify(value).length + 4;
+    if (size > 0 && size + entrySize > maxBytes) {
+      batches.push(batch);
+      batch = {};
+      size = 0;
+    }
+    batch[key] = value;
+    size += entrySize;
+  }
+  if (size > 0) batches.push(batch);
+  return batches;
+};
+
+// The writes for an import, built from a fresh read of the target (value and ETag).
+// When the result fits in one request and depends on what is there now (replace, add-only,
+// a non-object payload), it is a single SET with the ETag, so a change since the read ends in
+// a conflict instead of being overwritten. Merge doesn't depend on the current children and
+// is one UPDATE. Anything bigger becomes one UPDATE per batch.
+export const buildImportOperations = (current: VersionedValue, payload: any, strategy: ImportStrategy, path: string): WriteOperation[] => {
+  const guarded = (data: any): WriteOperation => ({ type: 'SET', path, data, etag: current.etag || undefined, base: current.value });
+
+  const updates = buildImportUpdates(current.value, payload, strategy);
+  if (updates === null) {
+    if (strategy === 'add-only' && current.value !== null) return [];
+    return [guarded(payload)];
+  }
+  if (Object.keys(updates).length === 0) return [];
+
+  if (strategy !== 'merge') {
+    const result = previewImport(current.value, payload, strategy);
+    if (JSON.stringify(result).length <= BATCH_BYTES) return [guarded(result)];
+  }
+  return splitIntoBatches(updates).map(batch => ({ type: 'UPDATE', path, data: batch }));
+};
@@ -0,0 +1,49 @@
+// The app's IndexedDB database. Each feature that persists locally owns one object store,
+// keyed by an auto-incremented `id` and indexed by the database URL it belongs to.
+const DB_NAME = 'rtdb-explorer';
+const DB_VERSION = 2;
+
+export type StoreName = 'history' | 'rulesVersions';
+const STORES: StoreName[] = ['history', 'rulesVersions'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("⚠️ Local storage unavailable: this browser has no IndexedDB."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        for (const name of STORES) {
+          if (request.result.objectStoreNames.contains(name)) continue;
+          const store = request.result.createObjectStore(name, { keyPath: 'id', autoIncrement: true });
+          store.createIndex('dbUrl', 'dbUrl');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new Error(`⚠️ Local storage unavailable: ${request.error?.message || 'could not open IndexedDB'}`));
+    });
+    // Let a later call retry instead of caching the failure
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Runs one request in its own transaction and resolves with its result
+export const runRequest = async <T>(storeName: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new Error(`⚠️ Local storage error: ${request.error?.message || 'request failed'}`));
+  });
+};
+
+// Every record stored for one database, newest first
+export const listByDatabase = async <T extends { id?: number }>(storeName: StoreName, dbUrl: string): Promise<T[]> => {
+  const records = await runRequest<T[]>(storeName, 'readonly', store => store.index('dbUrl').getAll(dbUrl));
+  return records.sort((a, b) => (b.id || 0) - (a.id || 0));
+};
@@ -0,0 +1,236 @@
+import { WriteOperation } from '../types';
+import { readVersioned, writeData, updateData, deleteData, pushData, WriteConflictError } from './firebaseService';
+import { diffValues, DiffEntry } from './diffService';
+import { setAtPath, splitPath, joinPath, isBranch } from './treeUtils';
+
+export const normalizePath = (path: string): string => splitPath(path || '').join('/');
+
+// Batches bigger than this aren't folded into one PATCH; they run in order with rollback instead
+export const MAX_ATOMIC_BYTES = 512 * 1024;
+
+// Stands in for the key a PUSH will get, until the server assigns it
+export const PUSH_KEY_PLACEHOLDER = '(server ID)';
+
+// The value a path will hold after the operation runs against `current`
+export const applyOperation = (current: any, operation: WriteOperation): any => {
+  if (operation.type === 'DELETE') return null;
+  if (operation.type === 'SET') return operation.data === undefined ? null : operation.data;
+  if (operation.type === 'PUSH') return setAtPath(isBranch(current) ? current : {}, PUSH_KEY_PLACEHOLDER, operation.data);
+
+  let next = isBranch(current) ? current : {};
+  for (const [key, value] of Object.entries(operation.data || {})) {
+    next = setAtPath(next, key, value);
+  }
+  return next;
+};
+
+export interface WritePreview {
+  preImages: Record<string, any>; // server value at each operation path before the write
+  etags: Record<string, string>;  // ETag each pre-image was read with
+  diff: DiffEntry[];
+}
+
+// Reads the server value at every affected path and diffs it against the proposed result.
+// A PUSH only adds a new child, so its parent (often a long list) isn't read.
+export const buildPreview = async (baseUrl: string, operations: WriteOperation[]): Promise<WritePreview> => {
+  const preImages: Record<string, any> = {};
+  const etags: Record<string, string> = {};
+  for (const operation of operations) {
+    const path = normalizePath(operation.path);
+    if (operation.type === 'PUSH' || path in preImages) continue;
+    const { value, etag } = await readVersioned(baseUrl, path);
+    preImages[path] = value;
+    if (etag) etags[path] = etag;
+  }
+
+  const diff = operations.flatMap(operation => {
+    const path = normalizePath(operation.path);
+    if (operation.type === 'PUSH') return diffValues(null, operation.data, joinPath(path, PUSH_KEY_PLACEHOLDER));
+    return diffValues(preImages[path], applyOperation(preImages[path], operation), path);
+  });
+  return { preImages, etags, diff };
+};
+
+// True when one path is the other or an ancestor of it
+export const pathsOverlap = (a: string, b: string) => !a || !b || a === b || a.startsWith(`${b}/`) || b.startsWith(`${a}/`);
+
+// Folds a batch into one root-level multi-path PATCH: SET becomes a path value, DELETE
+// becomes null, UPDATE contributes one entry per child. Returns null when the batch can't be
+// expressed that way: a root write, paths nested inside each other (Firebase rejects those),
+// an operation carrying an ETag, since PATCH takes no if-match, or a PUSH, whose key isn't known yet.
+export const compileMultiPathUpdate = (operations: WriteOperation[]): Record<string, any> | null => {
+  const updates: Record<string, any> = {};
+  for (const operation of operations) {
+    if (operation.etag || operation.type === 'PUSH') return null;
+    const path = normalizePath(operation.path);
+    if (operation.type === 'UPDATE') {
+      for (const [key, value] of Object.entries(operation.data || {})) updates[joinPath(path, key)] = value;
+    } else {
+      updates[path] = operation.type === 'DELETE' || operation.data === undefined ? null : operation.data;
+    }
+  }
+
+  const keys = new Set(Object.keys(updates));
+  if (keys.size === 0 || keys.has('')) return null;
+  for (const key of keys) {
+    const segments = splitPath(key);
+    for (let depth = 1; depth < segments.length; depth++) {
+      if (keys.has(segments.slice(0, depth).join('/'))) return null;
+    }
+  }
+  return updates;
+};
+
+// How a batch will be sent. 'atomic' is one multi-path PATCH; 'sequential' (the batch can't be
+// folded) and 'too-large' (folded it would be over MAX_ATOMIC_BYTES) run in order with rollback.
+export type BatchMode = 'single' | 'atomic' | 'sequential' | 'too-large';
+
+export const batchMode = (operations: WriteOperation[]): BatchMode => {
+  if (operations.length < 2) return 'single';
+  const compiled = compileMultiPathUpdate(operations);
+  if (!compiled) return 'sequential';
+  return JSON.stringify(compiled).length <= MAX_ATOMIC_BYTES ? 'atomic' : 'too-large';
+};
+
+// Writes that put each path back to its pre-image. Shallower paths go first so deeper
+// restores land on top of their restored parents.
+export const buildRestoreOperations = (preImages: Record<string, any>, paths: string[] = Object.keys(preImages)): WriteOperation[] =>
+  Array.from(new Set(paths))
+    .sort((a, b) => splitPath(a).length - splitPath(b).length)
+    .map(path => {
+      const value = preImages[path];
+      return value === null || value === undefined
+        ? { type: 'DELETE' as const, path }
+        : { type: 'SET' as const, path, data: value };
+    });
+
+// Resolves with the path that was written, which for a PUSH includes the server's new key
+const executeOperation = async (baseUrl: string, operation: WriteOperation, etag?: string): Promise<string> => {
+  const path = normalizePath(operation.path);
+  if (operation.type === 'PUSH') return joinPath(path, await pushData(baseUrl, path, operation.data));
+  if (operation.type === 'DELETE') await deleteData(baseUrl, path, etag);
+  else if (operation.type === 'SET') await writeData(baseUrl, path, operation.data, etag);
+  else await updateData(baseUrl, path, operation.data);
+  return path;
+};
+
+// PATCH takes no if-match, so before an atomic batch the SET and DELETE paths are read again.
+// Resolves with the conflict a conditional write would have hit at the first path whose ETag
+// no longer matches the one in `etags`, or null when nothing changed.
+const findChangedPath = async (baseUrl: string, operations: WriteOperation[], etags: Record<string, string>): Promise<WriteConflictError | null> => {
+  for (const operation of operations) {
+    const path = normalizePath(operation.path);
+    if ((operation.type !== 'SET' && operation.type !== 'DELETE') || !(path in etags)) continue;
+    const { value, etag } = await readVersioned(baseUrl, path);
+    if (etag && etag !== etags[path]) return new WriteConflictError(path, value, etag);
+  }
+  return null;
+};
+
+export type OperationStatus = 'pending' | 'ok' | 'failed' | 'rolled-back';
+
+export interface ExecuteOptions {
+  onStatus?: (index: number, status: OperationStatus) => void;
+  // Asked when a conditional write gets a 412. Resolve with the operation to retry, or null to abandon.
+  onConflict?: (operation: WriteOperation, conflict: WriteConflictError) => Promise<WriteOperation | null>;
+  // Told the full path of each PUSH once the server has assigned its key
+  onPushed?: (index: number, path: string) => Promise<void> | void;
+}
+
+// Runs a previewed batch. Batches that compile to one multi-path PATCH of at most
+// MAX_ATOMIC_BYTES apply atomically, once the preview's ETags are checked again; a changed
+// path goes through onConflict like a 412 would, and abandoning it writes nothing.
+// Anything else runs in order; SET and DELETE send their own ETag, or the preview's as long
+// as nothing earlier in the batch touched that part of the tree. If an operation fails or a
+// conflict is abandoned, everything already applied is restored from the preview's pre-images.
+// Resolves false when abandoned; rejects on failure.
+export const executeOperations = async (
+  baseUrl: string,
+  batch: WriteOperation[],
+  preview: WritePreview,
+  { onStatus = () => {}, onConflict, onPushed }: ExecuteOptions = {}
+): Promise<boolean> => {
+  // After a resolved conflict the other writer's value is what a rollback must restore,
+  // and its ETag is what the write is checked against
+  const preImages = { ...preview.preImages };
+  const etags = { ...preview.etags };
+  let operations = batch;
+
+  let atomic = batchMode(operations) === 'atomic';
+  while (atomic) {
+    const conflict = await findChangedPath(baseUrl, operations, etags);
+    if (!conflict) break;
+    const index = operations.findIndex(operation => normalizePath(operation.path) === conflict.path);
+    const resolved = onConflict ? await onConflict(operations[index], conflict) : null;
+    if (!resolved) {
+      if (onConflict) return false;
+      throw conflict;
+    }
+    // The answer may no longer fold into one PATCH (a merge that grew), in which case it runs in order
+    preImages[conflict.path] = conflict.current;
+    etags[conflict.path] = conflict.etag;
+    operations = operations.map((operation, i) => (i === index ? { ...resolved, etag: undefined } : operation));
+    atomic = batchMode(operations) === 'atomic';
+  }
+
+  const updates = atomic ? compileMultiPathUpdate(operations) : null;
+  if (updates) {
+    operations.forEach((_, i) => onStatus(i, 'pending'));
+    try {
+      await updateData(baseUrl, '', updates);
+    } catch (error: any) {
+      operations.forEach((_, i) => onStatus(i, 'failed'));
+      throw new Error(`${error.message} (atomic update, nothing was written)`);
+    }
+    operations.forEach((_, i) => onStatus(i, 'ok'));
+    return true;
+  }
+
+  const applied: { index: number; path: string }[] = [];
+  const rollBack = async () => {
+    try {
+      for (const restore of buildRestoreOperations(preImages, applied.map(entry => entry.path))) {
+        await executeOperation(baseUrl, restore);
+      }
+    } catch (error: any) {
+      throw new Error(`❌ Rollback failed: ${error.message} The database may be partly modified.`);
+    }
+    applied.forEach(entry => onStatus(entry.index, 'rolled-back'));
+  };
+
+  for (let i = 0; i < operations.length; i++) {
+    let operation = operations[i];
+    let path = normalizePath(operation.path);
+    onStatus(i, 'pending');
+
+    while (true) {
+      const etag = operation.etag ?? (applied.some(entry => pathsOverlap(entry.path, path)) ? undefined : etags[path]);
+      try {
+        const written = await executeOperation(baseUrl, operation, etag);
+        if (operation.type === 'PUSH') {
+          // The new child didn't exist before, so rolling back deletes it
+          path = written;
+          preImages[path] = null;
+          await onPushed?.(i, path);
+        }
+        break;
+      } catch (error: any) {
+        const resolved = error instanceof WriteConflictError && onConflict ? await onConflict(operation, error) : null;
+        if (resolved) {
+          preImages[path] = error.current;
+          operation = resolved;
+          continue;
+        }
+
+        onStatus(i, 'failed');
+        await rollBack();
+        if (error instanceof WriteConflictError && onConflict) return false;
+        const undone = applied.length ? `, ${applied.length} earlier rolled back` : '';
+        throw new Error(`${error.message} (action ${i + 1} of ${operations.length}${undone})`);
+      }
+    }
+    applied.push({ index: i, path });
+    onStatus(i, 'ok');
+  }
+  return true;
+};
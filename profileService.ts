@@ -0,0 +1,103 @@
+import { ConnectionProfile, ProfileTag } from '../types';
+import { cleanUrl, setReadOnly } from './firebaseService';
+import { normalizePath, pathsOverlap } from './mutationService';
+
+const PROFILES_KEY = 'rtdb-explorer.profiles';
+const WORKSPACE_KEY = 'rtdb-explorer.workspaces';
+const SAFETY_KEY = 'rtdb-explorer.safety';
+
+export const PROFILE_TAGS: { id: ProfileTag; label: string; dot: string; badge: string }[] = [
+  { id: 'dev', label: 'Dev', dot: 'bg-emerald-400', badge: 'bg-emerald-500/10 text-emerald-300 border-emerald-500/30' },
+  { id: 'staging', label: 'Staging', dot: 'bg-amber-400', badge: 'bg-amber-500/10 text-amber-300 border-amber-500/30' },
+  { id: 'prod', label: 'Prod', dot: 'bg-red-500', badge: 'bg-red-500/10 text-red-300 border-red-500/30' },
+  { id: 'other', label: 'Other', dot: 'bg-slate-400', badge: 'bg-slate-500/10 text-slate-300 border-slate-500/30' },
+];
+
+export const getTagStyle = (tag: ProfileTag) => PROFILE_TAGS.find(t => t.id === tag) || PROFILE_TAGS[PROFILE_TAGS.length - 1];
+
+// Per-connection UI state, restored when the connection is opened again
+export interface WorkspaceState {
+  expandedPaths: string[];
+  viewMode: 'tree' | 'raw' | 'rules';
+}
+
+// localStorage can be missing or full (private windows); saved state is a convenience, so failures are ignored
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const text = localStorage.getItem(key);
+    return text ? JSON.parse(text) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: any) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Not persisted this time
+  }
+};
+
+export const loadProfiles = (): ConnectionProfile[] => readJson<ConnectionProfile[]>(PROFILES_KEY, []);
+
+// Adds the profile, or replaces the one with the same id. Returns the new list.
+export const saveProfile = (profile: ConnectionProfile): ConnectionProfile[] => {
+  const profiles = loadProfiles();
+  const index = profiles.findIndex(p => p.id === profile.id);
+  const next = index === -1 ? [...profiles, profile] : profiles.map(p => p.id === profile.id ? profile : p);
+  writeJson(PROFILES_KEY, next);
+  return next;
+};
+
+export const deleteProfile = (id: string): ConnectionProfile[] => {
+  const next = loadProfiles().filter(p => p.id !== id);
+  writeJson(PROFILES_KEY, next);
+  return next;
+};
+
+export const createProfileId = (): string => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+// The saved profile for a database, however its URL was typed
+export const findProfile = (profiles: ConnectionProfile[], url: string): ConnectionProfile | undefined => {
+  if (!url) return undefined;
+  const target = cleanUrl(url);
+  return profiles.find(p => cleanUrl(p.url) === target);
+};
+
+export const loadWorkspace = (url: string): WorkspaceState | null =>
+  readJson<Record<string, WorkspaceState>>(WORKSPACE_KEY, {})[cleanUrl(url)] || null;
+
+export const saveWorkspace = (url: string, state: WorkspaceState) => {
+  const workspaces = readJson<Record<string, WorkspaceState>>(WORKSPACE_KEY, {});
+  workspaces[cleanUrl(url)] = state;
+  writeJson(WORKSPACE_KEY, workspaces);
+};
+
+// Per-connection write protection. Read-only is enforced by firebaseService;
+// protected paths make any write that touches them wait for typed confirmation.
+export interface ConnectionSafety {
+  readOnly: boolean;
+  protectedPaths: string[];
+}
+
+const loadAllSafety = (): Record<string, ConnectionSafety> => readJson<Record<string, ConnectionSafety>>(SAFETY_KEY, {});
+
+export const loadSafety = (url: string): ConnectionSafety => ({ readOnly: false, protectedPaths: [], ...loadAllSafety()[cleanUrl(url)] });
+
+export const saveSafety = (url: string, safety: ConnectionSafety) => {
+  const all = loadAllSafety();
+  all[cleanUrl(url)] = safety;
+  writeJson(SAFETY_KEY, all);
+  setReadOnly(url, safety.readOnly);
+};
+
+// Registers every saved read-only flag, so writes to connections other than the open one
+// (compare, for instance) are blocked too. Called once at startup.
+export const applySavedSafety = () => {
+  for (const [url, safety] of Object.entries(loadAllSafety())) setReadOnly(url, safety.readOnly);
+};
+
+// Protected paths a set of writes would touch: the path itself, anything under it, or a parent being replaced
+export const findProtectedHits = (protectedPaths: string[], writePaths: string[]): string[] =>
+  protectedPaths.filter(path => writePaths.some(target => pathsOverlap(normalizePath(path), normalizePath(target))));
@@ -0,0 +1,70 @@
+import { WriteOperation } from '../types';
+import { readData, readShallow } from './firebaseService';
+import { splitPath, joinPath, findInvalidKey } from './treeUtils';
+import { batchMode, MAX_ATOMIC_BYTES } from './mutationService';
+
+// Firebase has no rename. Rename and move write the value at the new path and null out the
+// old one in the same batch, which the write pipeline sends as one atomic multi-path PATCH.
+// Nodes too big for that are refused rather than copied and deleted in two separate requests.
+export type RelocateMode = 'rename' | 'move' | 'duplicate';
+
+export const RELOCATE_LABELS: Record<RelocateMode, string> = {
+  rename: 'Rename',
+  move: 'Move',
+  duplicate: 'Duplicate',
+};
+
+// Renames stay under the same parent, so the input is a key rather than a path
+export const resolveTarget = (mode: RelocateMode, from: string, input: string): string => {
+  if (mode !== 'rename') return splitPath(input).join('/');
+  return input.trim() ? joinPath(...splitPath(from).slice(0, -1), input.trim()) : '';
+};
+
+// First reason the relocation can't go ahead, checked before anything is read
+export const validateRelocation = (mode: RelocateMode, from: string, input: string): string | null => {
+  const to = resolveTarget(mode, from, input);
+  if (!splitPath(from).length) return "The root can't be relocated";
+  if (mode === 'rename' && input.includes('/')) return "A key can't contain \"/\". Use Move to change the parent.";
+  if (!to) return mode === 'rename' ? 'Enter the new key' : 'Enter the target path';
+  const badKey = findInvalidKey(to);
+  if (badKey !== undefined) return `"${badKey}" contains a character Firebase doesn't allow in keys (. # $ [ ])`;
+  if (to === from) return 'The target is the node itself';
+  if (mode !== 'duplicate' && to.startsWith(`${from}/`)) return "A node can't be moved inside itself";
+  return null;
+};
+
+// The writes for a relocation of `value` from one path to another
+export const buildRelocation = (mode: RelocateMode, from: string, to: string, value: any): WriteOperation[] =>
+  mode === 'duplicate'
+    ? [{ type: 'SET', path: to, data: value }]
+    : [{ type: 'SET', path: to, data: value }, { type: 'DELETE', path: from }];
+
+// Validates, refuses to overwrite an existing node, and reads the full source value
+// (the tree may only hold part of it). Resolves with the writes for review.
+export const prepareRelocation = async (baseUrl: string, mode: RelocateMode, from: string, input: string): Promise<WriteOperation[]> => {
+  const problem = validateRelocation(mode, from, input);
+  if (problem) throw new Error(`⚠️ ${problem}`);
+
+  const to = resolveTarget(mode, from, input);
+  if (await readShallow(baseUrl, to) !== null) {
+    throw new Error(`⚠️ /${to} already exists. Pick another target or delete it first.`);
+  }
+  const value = await readData(baseUrl, from);
+  if (value === null) throw new Error(`⚠️ /${from} no longer exists on the server.`);
+  const operations = buildRelocation(mode, from, to, value);
+  if (batchMode(operations) === 'too-large') {
+    throw new Error(`⚠️ /${from} is over ${MAX_ATOMIC_BYTES / 1024} KB, too large to ${mode} in one atomic update. Duplicate it, check the copy, then delete the original.`);
+  }
+  return operations;
+};
+
+// Drag and drop: the dragged node keeps its key under the parent it was dropped on
+export const dropTarget = (source: string, parent: string): string => joinPath(parent, splitPath(source).pop() || '');
+
+// Why a node can't be dropped onto `parent`, or null when it can
+export const validateDrop = (mode: 'move' | 'duplicate', source: string, parent: string): string | null => {
+  if (parent === source) return "Can't drop a node onto itself";
+  if (parent.startsWith(`${source}/`)) return "Can't drop a node into its own descendants";
+  if (parent === splitPath(source).slice(0, -1).join('/')) return 'Already under this parent';
+  return validateRelocation(mode, source, dropTarget(source, parent));
+};
@@ -0,0 +1,122 @@
+import { readRules, writeRules } from './firebaseService';
+import { runRequest, listByDatabase } from './localDb';
+import { isPlainObject } from './treeUtils';
+
+// Older versions past this are dropped per database
+export const RULES_VERSION_LIMIT = 50;
+
+export interface RulesVersion {
+  id?: number;
+  dbUrl: string;
+  timestamp: number;
+  text: string; // the rules that were live until a deploy replaced them
+}
+
+// Blanks out // and /* */ comments. Offsets and line breaks are kept so parse errors
+// still point at the right line of the original text.
+export const stripComments = (text: string): string => {
+  let out = '';
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const next = text[i + 1];
+
+    if (char === '"') {
+      let end = i + 1;
+      while (end < text.length && text[end] !== '"' && text[end] !== '\n') end += text[end] === '\\' ? 2 : 1;
+      out += text.slice(i, end + 1);
+      i = end + 1;
+    } else if (char === '/' && next === '/') {
+      while (i < text.length && text[i] !== '\n') {
+        out += ' ';
+        i++;
+      }
+    } else if (char === '/' && next === '*') {
+      const end = text.indexOf('*/', i + 2);
+      const stop = end === -1 ? text.length : end + 2;
+      out += text.slice(i, stop).replace(/[^\n]/g, ' ');
+      i = stop;
+    } else {
+      out += char;
+      i++;
+    }
+  }
+  return out;
+};
+
+export interface RulesValidation {
+  rules: any | null; // parsed document when valid
+  error: string | null;
+  line: number | null;
+}
+
+// First problem in a rules subtree: expressions must be strings or booleans, .indexOn a field or list of fields
+const checkRule = (node: any, path: string): string | null => {
+  for (const [key, value] of Object.entries(node)) {
+    const where = `${path}/${key}`;
+    if (key === '.read' || key === '.write' || key === '.validate') {
+      if (typeof value !== 'string' && typeof value !== 'boolean') return `${where} must be a string expression or a boolean`;
+    } else if (key === '.indexOn') {
+      const fields = Array.isArray(value) ? value : [value];
+      if (fields.some(field => typeof field !== 'string')) return `${where} must be a field name or a list of field names`;
+    } else if (key.startsWith('.')) {
+      return `${where} is not a known rule type`;
+    } else if (!isPlainObject(value)) {
+      return `${where} must be an object of rules`;
+    } else {
+      const nested = checkRule(value, where);
+      if (nested) return nested;
+    }
+  }
+  return null;
+};
+
+// Parses JSON-with-comments and checks the shape Firebase expects: { "rules": { ... } }
+export const validateRules = (text: string): RulesValidation => {
+  const stripped = stripComments(text);
+  let parsed: any;
+  try {
+    parsed = JSON.parse(stripped);
+  } catch (e: any) {
+    const position = e.message.match(/position (\d+)/);
+    const line = e.message.match(/line (\d+)/);
+    return {
+      rules: null,
+      error: e.message,
+      line: line ? Number(line[1]) : position ? stripped.slice(0, Number(position[1])).split('\n').length : null,
+    };
+  }
+
+  if (!isPlainObject(parsed) || !isPlainObject(parsed.rules)) {
+    return { rules: null, error: 'The document must be an object with a "rules" object at the top.', line: null };
+  }
+  const extra = Object.keys(parsed).find(key => key !== 'rules');
+  if (extra) return { rules: null, error: `Unexpected top-level key "${extra}". Only "rules" is allowed.`, line: null };
+
+  const problem = checkRule(parsed.rules, 'rules');
+  if (problem) return { rules: null, error: problem, line: null };
+  return { rules: parsed, error: null, line: null };
+};
+
+// Newest first
+export const listRulesVersions = (dbUrl: string): Promise<RulesVersion[]> => listByDatabase<RulesVersion>('rulesVersions', dbUrl);
+
+const recordRulesVersion = async (dbUrl: string, text: string): Promise<void> => {
+  const versions = await listRulesVersions(dbUrl);
+  if (versions[0]?.text === text) return;
+
+  await runRequest('rulesVersions', 'readwrite', store => store.add({ dbUrl, timestamp: Date.now(), text }));
+  for (const old of versions.slice(RULES_VERSION_LIMIT - 1)) {
+    await runRequest('rulesVersions', 'readwrite', store => store.delete(old.id!));
+  }
+};
+
+// Deploys new rules. The version being replaced is read back from the server and kept first,
+// so it can be restored even if it was deployed from somewhere else.
+export const deployRules = async (baseUrl: string, text: string): Promise<void> => {
+  const validation = validateRules(text);
+  if (validation.error) throw new Error(`⚠️ Invalid rules: ${validation.error}`);
+
+  await recordRulesVersion(baseUrl, await readRules(baseUrl));
+  await writeRules(baseUrl, text);
+};
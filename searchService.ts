@@ -0,0 +1,114 @@
+import { readShallow, readData, readPage } from './firebaseService';
+import { CHUNK_SIZE } from './exportService';
+import { isUnloaded, isBranch, compareKeys, joinPath } from './treeUtils';
+
+// Stop collecting after this many hits; the list is for jumping, not for exporting
+export const SEARCH_LIMIT = 200;
+
+export interface SearchOptions {
+  query: string;
+  regex: boolean;
+  caseSensitive: boolean;
+  keys: boolean;
+  values: boolean;
+}
+
+export interface SearchResult {
+  path: string;
+  field: 'key' | 'value';
+  value: any; // the leaf value, or undefined for a branch matched by key
+}
+
+export interface SearchOutcome {
+  results: SearchResult[];
+  truncated: boolean; // hit SEARCH_LIMIT
+  partial: boolean;   // parts of the tree were not loaded and were skipped
+}
+
+// Substring or regex test built once per search. A bad pattern is reported, not thrown later per node.
+export const buildMatcher = ({ query, regex, caseSensitive }: SearchOptions): ((text: string) => boolean) => {
+  if (regex) {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(query, caseSensitive ? '' : 'i');
+    } catch (e: any) {
+      throw new Error(`⚠️ Invalid pattern: ${e.message}`);
+    }
+    return text => pattern.test(text);
+  }
+  const needle = caseSensitive ? query : query.toLowerCase();
+  return text => (caseSensitive ? text : text.toLowerCase()).includes(needle);
+};
+
+// Where the match sits in `text`, for highlighting. Null if it doesn't match.
+export const findMatchRange = (text: string, options: SearchOptions): [number, number] | null => {
+  if (options.regex) {
+    try {
+      const match = new RegExp(options.query, options.caseSensitive ? '' : 'i').exec(text);
+      return match ? [match.index, match.index + match[0].length] : null;
+    } catch {
+      return null;
+    }
+  }
+  const index = options.caseSensitive ? text.indexOf(options.query) : text.toLowerCase().indexOf(options.query.toLowerCase());
+  return index === -1 ? null : [index, index + options.query.length];
+};
+
+// Walks `value` in key order. Returns false once the limit is reached. Unloaded placeholders are skipped and flagged.
+const walk = (value: any, path: string, options: SearchOptions, matches: (text: string) => boolean, outcome: SearchOutcome): boolean => {
+  for (const key of Object.keys(value).sort(compareKeys)) {
+    if (outcome.results.length >= SEARCH_LIMIT) {
+      outcome.truncated = true;
+      return false;
+    }
+    const child = value[key];
+    const childPath = joinPath(path, key);
+    const leaf = typeof child === 'string' || typeof child === 'number';
+
+    if (options.keys && matches(key)) outcome.results.push({ path: childPath, field: 'key', value: isBranch(child) ? undefined : child });
+    else if (options.values && leaf && matches(String(child))) outcome.results.push({ path: childPath, field: 'value', value: child });
+
+    if (isUnloaded(child)) outcome.partial = true;
+    else if (isBranch(child) && !walk(child, childPath, options, matches, outcome)) return false;
+  }
+  return true;
+};
+
+// Searches what is already in memory
+export const searchTree = (tree: any, options: SearchOptions, basePath: string = ''): SearchOutcome => {
+  const matches = buildMatcher(options);
+  const outcome: SearchOutcome = { results: [], truncated: false, partial: false };
+  if (isBranch(tree) && !isUnloaded(tree)) walk(tree, basePath, options, matches, outcome);
+  return outcome;
+};
+
+// Searches the server copy without holding it all: the top level is read shallow, then
+// children are downloaded CHUNK_SIZE at a time, searched and dropped.
+export const streamSearch = async (
+  baseUrl: string,
+  path: string,
+  options: SearchOptions,
+  onProgress: (scanned: number, total: number) => void,
+  isCancelled: () => boolean = () => false
+): Promise<SearchOutcome> => {
+  const matches = buildMatcher(options);
+  const outcome: SearchOutcome = { results: [], truncated: false, partial: false };
+
+  const shallow = await readShallow(baseUrl, path);
+  if (!isBranch(shallow)) return outcome;
+
+  const keys = Object.keys(shallow).sort(compareKeys);
+  if (keys.length <= CHUNK_SIZE) {
+    walk(await readData(baseUrl, path), path, options, matches, outcome);
+    onProgress(keys.length, keys.length);
+    return outcome;
+  }
+
+  for (let i = 0; i < keys.length; i += CHUNK_SIZE) {
+    if (isCancelled()) throw new Error("Search cancelled");
+    const chunk = await readPage(baseUrl, path, keys[i], CHUNK_SIZE);
+    onProgress(Math.min(i + CHUNK_SIZE, keys.length), keys.length);
+    if (!walk(chunk || {}, path, options, matches, outcome)) break;
+  }
+  return outcome;
+};
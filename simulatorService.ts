@@ -0,0 +1,474 @@
+// Evaluates Realtime Database security rules in the browser, against a local copy of the data.
+// Covers .read, .write and .validate with $wildcards and the auth, data, newData, root, now and
+// $variable bindings. Rule expressions that throw count as false, like on the server.
+import { splitPath, getAtPath, setAtPath, isPlainObject } from './treeUtils';
+
+type Token =
+  | { kind: 'num'; value: number }
+  | { kind: 'str'; value: string }
+  | { kind: 'regex'; source: string; flags: string }
+  | { kind: 'ident'; value: string }
+  | { kind: 'punct'; value: string };
+
+type Node =
+  | { t: 'lit'; value: any }
+  | { t: 'regex'; value: RegExp }
+  | { t: 'id'; name: string }
+  | { t: 'arr'; items: Node[] }
+  | { t: 'member'; object: Node; property: string }
+  | { t: 'index'; object: Node; index: Node }
+  | { t: 'call'; object: Node; method: string; args: Node[] }
+  | { t: 'unary'; op: string; arg: Node }
+  | { t: 'binary'; op: string; left: Node; right: Node }
+  | { t: 'cond'; test: Node; then: Node; otherwise: Node };
+
+const PUNCTUATION = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '!', '<', '>', '(', ')', '[', ']', '.', ',', '?', ':'];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  // A slash starts a regex unless it follows something that has a value
+  const slashIsRegex = () => {
+    const last = tokens[tokens.length - 1];
+    return !last || (last.kind === 'punct' && !')]'.includes(last.value));
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9]/.test(char)) {
+      const match = source.slice(i).match(/^\d+(\.\d+)?/)!;
+      tokens.push({ kind: 'num', value: Number(match[0]) });
+      i += match[0].length;
+    } else if (char === '"' || char === "'") {
+      let value = '';
+      let end = i + 1;
+      while (end < source.length && source[end] !== char) {
+        if (source[end] === '\\') end++;
+        value += source[end];
+        end++;
+      }
+      if (end >= source.length) throw new Error(`Unterminated string at ${i}`);
+      tokens.push({ kind: 'str', value });
+      i = end + 1;
+    } else if (char === '/' && slashIsRegex()) {
+      const match = source.slice(i).match(/^\/((?:\\.|[^/\\])+)\/([a-z]*)/);
+      if (!match) throw new Error(`Bad regular expression at ${i}`);
+      tokens.push({ kind: 'regex', source: match[1], flags: match[2] });
+      i += match[0].length;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const match = source.slice(i).match(/^[A-Za-z_$][A-Za-z0-9_$]*/)!;
+      tokens.push({ kind: 'ident', value: match[0] });
+      i += match[0].length;
+    } else {
+      const punct = PUNCTUATION.find(p => source.startsWith(p, i));
+      if (!punct) throw new Error(`Unexpected "${char}" at ${i}`);
+      tokens.push({ kind: 'punct', value: punct });
+      i += punct.length;
+    }
+  }
+  return tokens;
+};
+
+const BINARY_LEVELS = [['||'], ['&&'], ['==', '===', '!=', '!=='], ['<', '<=', '>', '>='], ['+', '-'], ['*', '/', '%']];
+
+export const parseExpression = (source: string): Node => {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const punct = (): string | null => {
+    const token = tokens[pos];
+    return token?.kind === 'punct' ? token.value : null;
+  };
+  const peek = (value: string) => punct() === value;
+  const expect = (value: string) => {
+    if (!peek(value)) throw new Error(`Expected "${value}"`);
+    pos++;
+  };
+
+  const primary = (): Node => {
+    const token = tokens[pos++];
+    if (!token) throw new Error("Unexpected end of expression");
+    if (token.kind === 'num' || token.kind === 'str') return { t: 'lit', value: token.value };
+    if (token.kind === 'regex') return { t: 'regex', value: new RegExp(token.source, token.flags) };
+    if (token.kind === 'ident') {
+      if (token.value === 'true' || token.value === 'false') return { t: 'lit', value: token.value === 'true' };
+      if (token.value === 'null') return { t: 'lit', value: null };
+      return { t: 'id', name: token.value };
+    }
+    if (token.value === '(') {
+      const inner = expression();
+      expect(')');
+      return inner;
+    }
+    if (token.value === '[') {
+      const items: Node[] = [];
+      while (!peek(']')) {
+        items.push(expression());
+        if (!peek(']')) expect(',');
+      }
+      pos++;
+      return { t: 'arr', items };
+    }
+    throw new Error(`Unexpected "${token.value}"`);
+  };
+
+  const postfix = (): Node => {
+    let node = primary();
+    while (true) {
+      if (peek('.')) {
+        pos++;
+        const name = tokens[pos++];
+        if (name?.kind !== 'ident') throw new Error("Expected a name after \".\"");
+        if (peek('(')) {
+          pos++;
+          const args: Node[] = [];
+          while (!peek(')')) {
+            args.push(expression());
+            if (!peek(')')) expect(',');
+          }
+          pos++;
+          node = { t: 'call', object: node, method: name.value, args };
+        } else {
+          node = { t: 'member', object: node, property: name.value };
+        }
+      } else if (peek('[')) {
+        pos++;
+        const index = expression();
+        expect(']');
+        node = { t: 'index', object: node, index };
+      } else {
+        return node;
+      }
+    }
+  };
+
+  const unary = (): Node => {
+    const op = punct();
+    if (op === '!' || op === '-') {
+      pos++;
+      return { t: 'unary', op, arg: unary() };
+    }
+    return postfix();
+  };
+
+  const binary = (level: number): Node => {
+    if (level === BINARY_LEVELS.length) return unary();
+    let left = binary(level + 1);
+    let op = punct();
+    while (op && BINARY_LEVELS[level].includes(op)) {
+      pos++;
+      left = { t: 'binary', op, left, right: binary(level + 1) };
+      op = punct();
+    }
+    return left;
+  };
+
+  const expression = (): Node => {
+    const test = binary(0);
+    if (!peek('?')) return test;
+    pos++;
+    const then = expression();
+    expect(':');
+    return { t: 'cond', test, then, otherwise: expression() };
+  };
+
+  const node = expression();
+  if (pos < tokens.length) throw new Error(`Unexpected "${punct() ?? 'token'}" at the end`);
+  return node;
+};
+
+// What `data`, `newData` and `root` refer to: a position in a copy of the whole database
+export class RuleSnapshot {
+  private tree: any;
+  private segments: string[];
+
+  constructor(tree: any, segments: string[]) {
+    this.tree = tree;
+    this.segments = segments;
+  }
+
+  val(): any {
+    return getAtPath(this.tree, this.segments.join('/'));
+  }
+
+  child(path: string): RuleSnapshot {
+    if (typeof path !== 'string') throw new Error("child() needs a string path");
+    return new RuleSnapshot(this.tree, [...this.segments, ...splitPath(path)]);
+  }
+
+  parent(): RuleSnapshot {
+    if (this.segments.length === 0) throw new Error("parent() called on the root");
+    return new RuleSnapshot(this.tree, this.segments.slice(0, -1));
+  }
+
+  exists(): boolean {
+    return this.val() !== null;
+  }
+
+  hasChild(path: string): boolean {
+    return this.child(path).exists();
+  }
+
+  hasChildren(keys?: string[]): boolean {
+    const value = this.val();
+    if (value === null || typeof value !== 'object') return false;
+    return keys ? keys.every(key => this.hasChild(key)) : Object.keys(value).length > 0;
+  }
+
+  isNumber(): boolean {
+    return typeof this.val() === 'number';
+  }
+
+  isString(): boolean {
+    return typeof this.val() === 'string';
+  }
+
+  isBoolean(): boolean {
+    return typeof this.val() === 'boolean';
+  }
+
+  getPriority(): null {
+    return null;
+  }
+}
+
+interface Scope {
+  auth: any;
+  now: number;
+  root: RuleSnapshot;
+  data: RuleSnapshot;
+  newData?: RuleSnapshot; // writes only
+  variables: Record<string, string>;
+}
+
+// The only methods a rule can call, by the type of value they're called on. Rules are
+// user input, so nothing outside these tables is ever looked up on the value itself.
+const STRING_METHODS: Record<string, (value: string, args: any[]) => any> = {
+  contains: (value, [text]) => value.includes(text),
+  beginsWith: (value, [text]) => value.startsWith(text),
+  endsWith: (value, [text]) => value.endsWith(text),
+  replace: (value, [text, replacement]) => value.split(text).join(replacement),
+  toLowerCase: value => value.toLowerCase(),
+  toUpperCase: value => value.toUpperCase(),
+  matches: (value, [pattern]) => {
+    if (!(pattern instanceof RegExp)) throw new Error("matches() needs a regular expression");
+    return pattern.test(value);
+  },
+};
+
+const SNAPSHOT_METHODS: Record<string, (snapshot: RuleSnapshot, args: any[]) => any> = {
+  val: snapshot => snapshot.val(),
+  child: (snapshot, [path]) => snapshot.child(path),
+  parent: snapshot => snapshot.parent(),
+  exists: snapshot => snapshot.exists(),
+  hasChild: (snapshot, [path]) => snapshot.hasChild(path),
+  hasChildren: (snapshot, [keys]) => snapshot.hasChildren(keys),
+  isNumber: snapshot => snapshot.isNumber(),
+  isString: snapshot => snapshot.isString(),
+  isBoolean: snapshot => snapshot.isBoolean(),
+  getPriority: snapshot => snapshot.getPriority(),
+};
+
+const lookupMethod = <T>(table: Record<string, T>, method: string, kind: string): T => {
+  if (!Object.prototype.hasOwnProperty.call(table, method)) throw new Error(`Unknown ${kind} method ${method}()`);
+  return table[method];
+};
+
+const evaluate = (node: Node, scope: Scope): any => {
+  switch (node.t) {
+    case 'lit':
+    case 'regex':
+      return node.value;
+    case 'arr':
+      return node.items.map(item => evaluate(item, scope));
+    case 'id': {
+      if (node.name.startsWith('$')) {
+        if (!(node.name in scope.variables)) throw new Error(`${node.name} is not bound at this location`);
+        return scope.variables[node.name];
+      }
+      if (node.name === 'newData' && !scope.newData) throw new Error("newData is only available to writes");
+      if (node.name === 'auth' || node.name === 'now' || node.name === 'root' || node.name === 'data' || node.name === 'newData') return scope[node.name];
+      throw new Error(`Unknown variable ${node.name}`);
+    }
+    case 'member':
+    case 'index': {
+      const object = evaluate(node.object, scope);
+      const key = node.t === 'member' ? node.property : evaluate(node.index, scope);
+      if (object === null || object === undefined) throw new Error(`Cannot read "${key}" of null`);
+      if (typeof object === 'string' && key === 'length') return object.length;
+      if (typeof object !== 'object' || object instanceof RuleSnapshot) throw new Error(`Cannot read "${key}" here`);
+      return object[key] === undefined ? null : object[key];
+    }
+    case 'call': {
+      const object = evaluate(node.object, scope);
+      const args = node.args.map(arg => evaluate(arg, scope));
+      if (object instanceof RuleSnapshot) return lookupMethod(SNAPSHOT_METHODS, node.method, 'snapshot')(object, args);
+      if (typeof object === 'string') return lookupMethod(STRING_METHODS, node.method, 'string')(object, args);
+      throw new Error(`Cannot call ${node.method}() on ${object === null ? 'null' : typeof object}`);
+    }
+    case 'unary': {
+      const value = evaluate(node.arg, scope);
+      if (node.op === '!') {
+        if (typeof value !== 'boolean') throw new Error("! needs a boolean");
+        return !value;
+      }
+      if (typeof value !== 'number') throw new Error("Unary - needs a number");
+      return -value;
+    }
+    case 'binary': {
+      if (node.op === '&&' || node.op === '||') {
+        const left = evaluate(node.left, scope);
+        if (typeof left !== 'boolean') throw new Error(`${node.op} needs booleans`);
+        if (node.op === '&&' ? !left : left) return left;
+        const right = evaluate(node.right, scope);
+        if (typeof right !== 'boolean') throw new Error(`${node.op} needs booleans`);
+        return right;
+      }
+      const left = evaluate(node.left, scope);
+      const right = evaluate(node.right, scope);
+      switch (node.op) {
+        case '==': case '===': return left === right;
+        case '!=': case '!==': return left !== right;
+        case '+':
+          if (typeof left === 'string' || typeof right === 'string') return String(left) + String(right);
+          if (typeof left !== 'number' || typeof right !== 'number') throw new Error("+ needs numbers or strings");
+          return left + right;
+      }
+      if (typeof left !== typeof right || (typeof left !== 'number' && typeof left !== 'string')) {
+        throw new Error(`${node.op} needs two numbers${node.op.length === 1 && '-*/%'.includes(node.op) ? '' : ' or two strings'}`);
+      }
+      switch (node.op) {
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+      }
+      if (typeof left !== 'number') throw new Error(`${node.op} needs numbers`);
+      if (node.op === '-') return left - right;
+      if (node.op === '*') return left * right;
+      if (node.op === '/') return left / right;
+      return left % right;
+    }
+    case 'cond': {
+      const test = evaluate(node.test, scope);
+      if (typeof test !== 'boolean') throw new Error("?: needs a boolean condition");
+      return evaluate(test ? node.then : node.otherwise, scope);
+    }
+  }
+};
+
+export type SimulatedOperation = 'read' | 'write';
+export type RuleKind = '.read' | '.write' | '.validate';
+
+export interface SimulationRequest {
+  operation: SimulatedOperation;
+  path: string;
+  newValue?: any; // writes: the value being set at `path` (null deletes)
+  auth: any;      // null when unauthenticated
+  now?: number;
+}
+
+export interface TraceStep {
+  kind: RuleKind;
+  location: string;   // data path the rule was evaluated at
+  rulePath: string;   // where the rule sits in the rules tree, wildcards included
+  expression: string;
+  result: boolean;
+  error?: string;
+}
+
+export interface SimulationResult {
+  allowed: boolean;
+  reason: string;
+  trace: TraceStep[];
+}
+
+interface RuleLevel {
+  node: any;                         // rules object at this level, null once no rules match
+  rulePath: string[];
+  variables: Record<string, string>;
+}
+
+// The rules child a data key falls under: an exact key wins over a $wildcard
+const childRule = (level: RuleLevel, key: string): RuleLevel => {
+  if (!isPlainObject(level.node)) return { node: null, rulePath: [...level.rulePath, key], variables: level.variables };
+  if (isPlainObject(level.node[key])) return { node: level.node[key], rulePath: [...level.rulePath, key], variables: level.variables };
+  const wildcard = Object.keys(level.node).find(name => name.startsWith('$'));
+  if (wildcard && isPlainObject(level.node[wildcard])) {
+    return { node: level.node[wildcard], rulePath: [...level.rulePath, wildcard], variables: { ...level.variables, [wildcard]: key } };
+  }
+  return { node: null, rulePath: [...level.rulePath, key], variables: level.variables };
+};
+
+// Runs a read or write against a rules document ({ "rules": { ... } }) and a copy of the data
+export const simulate = (rulesDocument: any, data: any, request: SimulationRequest): SimulationResult => {
+  const segments = splitPath(request.path);
+  const isWrite = request.operation === 'write';
+  const newTree = isWrite ? setAtPath(data, request.path, request.newValue === undefined ? null : request.newValue) : data;
+  const now = request.now ?? Date.now();
+  const trace: TraceStep[] = [];
+
+  const check = (kind: RuleKind, level: RuleLevel, location: string[]): boolean => {
+    const rule = level.node[kind];
+    const scope: Scope = {
+      auth: request.auth ?? null,
+      now,
+      root: new RuleSnapshot(data, []),
+      data: new RuleSnapshot(data, location),
+      newData: isWrite ? new RuleSnapshot(newTree, location) : undefined,
+      variables: level.variables,
+    };
+    const step: TraceStep = { kind, location: `/${location.join('/')}`, rulePath: `/${['rules', ...level.rulePath].join('/')}`, expression: String(rule), result: false };
+    try {
+      const value = typeof rule === 'boolean' ? rule : evaluate(parseExpression(String(rule)), scope);
+      if (typeof value !== 'boolean') throw new Error(`Rule evaluated to ${JSON.stringify(value)}, not a boolean`);
+      step.result = value;
+    } catch (e: any) {
+      step.error = e.message;
+    }
+    trace.push(step);
+    return step.result;
+  };
+
+  // Walk from the root to the target. .read / .write cascade: the first one that's true grants.
+  const kind: RuleKind = isWrite ? '.write' : '.read';
+  const levels: RuleLevel[] = [{ node: isPlainObject(rulesDocument?.rules) ? rulesDocument.rules : null, rulePath: [], variables: {} }];
+  for (const key of segments) levels.push(childRule(levels[levels.length - 1], key));
+
+  let granted: TraceStep | null = null;
+  for (let depth = 0; depth < levels.length && !granted; depth++) {
+    const level = levels[depth];
+    if (isPlainObject(level.node) && kind in level.node && check(kind, level, segments.slice(0, depth))) {
+      granted = trace[trace.length - 1];
+    }
+  }
+  if (!granted) {
+    return { allowed: false, reason: `No ${kind} rule on the way to /${segments.join('/')} evaluated to true.`, trace };
+  }
+  if (!isWrite) return { allowed: true, reason: `Granted by ${granted.rulePath}/.read`, trace };
+
+  // .validate doesn't cascade: every rule on the path and under the new value must pass.
+  // It is skipped wherever the new data is null.
+  const validateBelow = (level: RuleLevel, location: string[]): boolean => {
+    const value = getAtPath(newTree, location.join('/'));
+    if (value === null || !isPlainObject(level.node)) return true;
+    if ('.validate' in level.node && !check('.validate', level, location)) return false;
+    if (typeof value !== 'object') return true;
+    return Object.keys(value).every(key => validateBelow(childRule(level, key), [...location, key]));
+  };
+
+  for (let depth = 0; depth < levels.length - 1; depth++) {
+    const level = levels[depth];
+    const location = segments.slice(0, depth);
+    if (isPlainObject(level.node) && '.validate' in level.node && getAtPath(newTree, location.join('/')) !== null && !check('.validate', level, location)) {
+      return { allowed: false, reason: `Rejected by ${trace[trace.length - 1].rulePath}/.validate`, trace };
+    }
+  }
+  if (!validateBelow(levels[levels.length - 1], segments)) {
+    return { allowed: false, reason: `Rejected by ${trace[trace.length - 1].rulePath}/.validate`, trace };
+  }
+  return { allowed: true, reason: `Granted by ${granted.rulePath}/.write`, trace };
+};
@@ -0,0 +1,124 @@
+// Path helpers and immutable updates for the in-memory copy of the database
+
+// Placeholder for a child whose contents have not been fetched yet
+export interface UnloadedNode {
+  readonly __unloaded: true;
+}
+
+export const UNLOADED: UnloadedNode = Object.freeze({ __unloaded: true as const });
+
+export const isUnloaded = (value: any): value is UnloadedNode => value === UNLOADED;
+
+// Objects and arrays: anything that has children
+export const isBranch = (value: any): boolean => value !== null && typeof value === 'object';
+
+// JSON objects only, arrays excluded (rules documents)
+export const isPlainObject = (value: any): boolean => isBranch(value) && !Array.isArray(value);
+
+// True if any placeholder is left anywhere below `value`
+export const hasUnloaded = (value: any): boolean => {
+  if (isUnloaded(value)) return true;
+  if (!isBranch(value)) return false;
+  return Object.values(value).some(hasUnloaded);
+};
+
+// A shallow read returns `true` for nested objects. Those become placeholders; a real
+// `true` leaf is indistinguishable until its path is loaded on its own.
+export const fromShallow = (shallow: any): any => {
+  if (!isBranch(shallow)) return shallow;
+  const level: any = {};
+  for (const [key, value] of Object.entries(shallow)) {
+    level[key] = value === true ? UNLOADED : value;
+  }
+  return level;
+};
+
+// "/users//uid_1/" -> ["users", "uid_1"]
+export const splitPath = (path: string): string[] => path.split('/').filter(Boolean);
+
+export const joinPath = (...parts: string[]): string => parts.flatMap(splitPath).join('/');
+
+// Characters Firebase doesn't allow in keys
+const INVALID_KEY = /[.#$[\]\u0000-\u001f\u007f]/;
+
+// First key in a path Firebase would reject, undefined when all are fine
+export const findInvalidKey = (path: string): string | undefined => splitPath(path).find(key => INVALID_KEY.test(key));
+
+export const getAtPath = (tree: any, path: string): any => {
+  let node = tree;
+  for (const key of splitPath(path)) {
+    if (!isBranch(node)) return null;
+    node = node[key];
+  }
+  return node === undefined ? null : node;
+};
+
+// Returns a new tree with `value` at `path`. Writing null removes the key, and like
+// Firebase, objects left empty are removed too. Untouched branches keep their identity.
+// Writing below a placeholder starts that level afresh rather than copying the marker.
+export const setAtPath = (tree: any, path: string, value: any): any => {
+  const keys = splitPath(path);
+  if (keys.length === 0) return value;
+
+  const [head, ...rest] = keys;
+  const current = isBranch(tree) && !isUnloaded(tree) ? tree : {};
+  const child = setAtPath(current[head] ?? null, rest.join('/'), value);
+
+  const next: any = Array.isArray(current) ? [...current] : { ...current };
+  if (child === null || child === undefined) delete next[head];
+  else next[head] = child;
+
+  return Object.keys(next).length === 0 ? null : next;
+};
+
+// Firebase key order: 32-bit integer keys first, numerically, then the rest as strings
+const INTEGER_KEY = /^-?(0|[1-9]\d{0,9})$/;
+
+export const compareKeys = (a: string, b: string): number => {
+  const aIsInt = INTEGER_KEY.test(a);
+  const bIsInt = INTEGER_KEY.test(b);
+  if (aIsInt && bIsInt) return Number(a) - Number(b);
+  if (aIsInt) return -1;
+  if (bIsInt) return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+// Firebase value order, used by orderBy=$value and child queries: null, false, true, numbers, strings, then objects
+const valueRank = (value: any): number =>
+  value === null || value === undefined ? 0 : value === false ? 1 : value === true ? 2 : typeof value === 'number' ? 3 : typeof value === 'string' ? 4 : 5;
+
+export const compareValues = (a: any, b: any): number => {
+  const rank = valueRank(a) - valueRank(b);
+  if (rank !== 0) return rank;
+  if (typeof a === 'number') return a - b;
+  if (typeof a === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  return 0;
+};
+
+// Keys of a query result in the order the server applied. REST returns a plain JSON object,
+// which carries no order, so the result is sorted again by the same orderBy with key as the
+// tie-break. Priorities aren't in REST results, so $priority falls back to key order.
+export const orderQueryKeys = (results: any, orderBy: string): string[] => {
+  const keys = isBranch(results) ? Object.keys(results).sort(compareKeys) : [];
+  if (orderBy === '$key' || orderBy === '$priority') return keys;
+  const sortValue = (key: string) => (orderBy === '$value' ? results[key] : getAtPath(results[key], orderBy));
+  return keys.sort((a, b) => compareValues(sortValue(a), sortValue(b)) || compareKeys(a, b));
+};
+
+export interface ServerEvent {
+  event: 'put' | 'patch';
+  path: string;
+  data: any;
+}
+
+// Applies a REST streaming event relative to the subscribed path
+export const applyServerEvent = (tree: any, basePath: string, { event, path, data }: ServerEvent): any => {
+  const target = joinPath(basePath, path);
+  if (event === 'put') return setAtPath(tree, target, data);
+
+  let next = tree;
+  for (const [key, value] of Object.entries(data || {})) {
+    next = setAtPath(next, joinPath(target, key), value);
+  }
+  return next;
+};
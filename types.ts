@@ -1,8 +1,48 @@
 export type FirebaseValue = string | number | boolean | null | object;
 
+// How requests to a database are authenticated
+export type DbCredential =
+  | { type: 'none' }
+  | { type: 'idToken'; token: string }                          // Firebase Auth ID token -> ?auth=
+  | { type: 'accessToken'; token: string; useHeader?: boolean } // OAuth2 token -> ?access_token= or Bearer header
+  | { type: 'secret'; secret: string };                         // Legacy database secret -> ?auth=
+
 export interface DbConnection {
   url: string;
   connected: boolean;
+  credential?: DbCredential;
+}
+
+// Environment a saved connection belongs to. Prod adds an extra confirmation to every write.
+export type ProfileTag = 'dev' | 'staging' | 'prod' | 'other';
+
+// A saved connection. Only the credential type is kept: tokens and secrets are never stored.
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  url: string; // resolved base URL, emulator URLs include ?ns=
+  credentialType: DbCredential['type'];
+  useAuthHeader?: boolean;
+  tag: ProfileTag;
+}
+
+// Firebase REST query parameters. Bounds are JSON values (strings, numbers, booleans, null).
+export interface DataQuery {
+  orderBy: string; // "$key", "$value", "$priority" or a child path
+  equalTo?: FirebaseValue;
+  startAt?: FirebaseValue;
+  endAt?: FirebaseValue;
+  limitToFirst?: number;
+  limitToLast?: number;
+}
+
+// One database mutation. SET = PUT, UPDATE = PATCH (keys may be multi-path), DELETE = remove.
+export interface WriteOperation {
+  type: 'SET' | 'UPDATE' | 'DELETE' | 'PUSH'; // PUSH adds `data` under `path` with a server-assigned key (POST)
+  path: string;
+  data?: any;
+  etag?: string; // sent as if-match on SET and DELETE, so the write fails if the node changed
+  base?: any;    // the value `etag` was read with, shown as the common ancestor on a conflict
 }
 
 export interface NodeProps {
@@ -11,6 +51,19 @@ export interface NodeProps {
   value: FirebaseValue;
   dbUrl: string;
   onRefresh: () => void;
+  onWrite: (operations: WriteOperation[], title: string) => Promise<boolean>;
+  expanded: boolean;
+  onToggle: (path: string, expanded: boolean) => void;
+  loadingChildren?: boolean;
+  focused?: boolean;
+  highlighted?: boolean; // search result being revealed
+  onQuery?: (path: string) => void;
+  onExport?: (path: string) => void;
+  onFocus?: (path: string) => void;
+  draggable?: boolean; // row can be dragged onto another object to move it (Alt to copy)
+  selected?: boolean;
+  selecting?: boolean; // some row is selected, so checkboxes stay visible
+  onSelect?: (path: string, range: boolean) => void; // range: shift-click extends from the last clicked sibling
   depth?: number;
 }
 
@@ -18,4 +71,4 @@ export interface Notification {
   type: 'success' | 'error' | 'info';
   message: string;
   id: number;
-}
\ No newline at end of file
+}
@@ -0,0 +1,121 @@
+// Explicit value types for the editors. Nothing is guessed from the text: "123" stays a
+// string unless the type says number, and switching type is always the user's choice.
+
+// `timestamp` and `increment` are server placeholders, resolved by Firebase when the write lands
+export type ValueType = 'string' | 'number' | 'boolean' | 'null' | 'object' | 'array' | 'timestamp' | 'increment';
+
+export const VALUE_TYPES: ValueType[] = ['string', 'number', 'boolean', 'null', 'object', 'array', 'timestamp', 'increment'];
+
+export const SERVER_TIMESTAMP = { '.sv': 'timestamp' };
+export const serverIncrement = (delta: number) => ({ '.sv': { increment: delta } });
+
+// Types whose value doesn't come from any text
+const TEXTLESS: ValueType[] = ['null', 'timestamp'];
+
+// Editor state: the chosen type and the raw text for it
+export interface ValueDraft {
+  type: ValueType;
+  text: string;
+}
+
+export interface ParsedValue {
+  value: any;
+  error: string | null;
+  line: number | null; // for JSON errors in object and array drafts
+}
+
+export const typeOf = (value: any): ValueType => {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'object') return 'object';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  return 'string';
+};
+
+const EMPTY_TEXT: Record<ValueType, string> = {
+  string: '',
+  number: '0',
+  boolean: 'false',
+  null: '',
+  object: '{\n  \n}',
+  array: '[\n  \n]',
+  timestamp: '',
+  increment: '1',
+};
+
+export const toDraft = (value: any): ValueDraft => {
+  const type = typeOf(value);
+  if (type === 'null') return { type, text: '' };
+  if (type === 'object' || type === 'array') return { type, text: JSON.stringify(value, null, 2) };
+  return { type, text: String(value) };
+};
+
+export const emptyDraft = (type: ValueType = 'string'): ValueDraft => ({ type, text: EMPTY_TEXT[type] });
+
+const jsonError = (text: string, error: any): ParsedValue => {
+  const position = error.message.match(/position (\d+)/);
+  const line = error.message.match(/line (\d+)/);
+  return {
+    value: undefined,
+    error: error.message,
+    line: line ? Number(line[1]) : position ? text.slice(0, Number(position[1])).split('\n').length : null,
+  };
+};
+
+const invalid = (error: string): ParsedValue => ({ value: undefined, error, line: null });
+
+export const parseDraft = ({ type, text }: ValueDraft): ParsedValue => {
+  switch (type) {
+    case 'string':
+      return { value: text, error: null, line: null };
+    case 'number':
+    case 'increment': {
+      const trimmed = text.trim();
+      const number = Number(trimmed);
+      if (!trimmed || !Number.isFinite(number)) return invalid('Not a finite number');
+      return { value: type === 'number' ? number : serverIncrement(number), error: null, line: null };
+    }
+    case 'timestamp':
+      return { value: SERVER_TIMESTAMP, error: null, line: null };
+    case 'boolean':
+      if (text !== 'true' && text !== 'false') return invalid('Must be true or false');
+      return { value: text === 'true', error: null, line: null };
+    case 'null':
+      return { value: null, error: null, line: null };
+    case 'object':
+    case 'array': {
+      let parsed: any;
+      try {
+        parsed = JSON.parse(text);
+      } catch (e: any) {
+        return jsonError(text, e);
+      }
+      if (typeOf(parsed) !== type) return invalid(`Expected a JSON ${type}, got ${typeOf(parsed)}`);
+      return { value: parsed, error: null, line: null };
+    }
+  }
+};
+
+// Carries the text over when it is still valid for the new type, otherwise starts from that type's empty value
+export const changeDraftType = (draft: ValueDraft, type: ValueType): ValueDraft => {
+  const current = parseDraft(draft);
+  if (current.error === null && !TEXTLESS.includes(draft.type)) {
+    if (type === 'string') return { type, text: draft.type === 'object' || draft.type === 'array' ? JSON.stringify(current.value) : draft.text };
+    const candidate = { type, text: draft.text.trim() };
+    if (parseDraft(candidate).error === null && !TEXTLESS.includes(type)) return candidate;
+  }
+  return emptyDraft(type);
+};
+
+// Epoch milliseconds (or whole seconds) between 2000 and 2100 are probably timestamps
+const TIMESTAMP_MIN = Date.UTC(2000, 0, 1);
+const TIMESTAMP_MAX = Date.UTC(2100, 0, 1);
+
+// Readable date for a number that looks like a timestamp, null for anything else
+export const describeTimestamp = (value: any): string | null => {
+  if (typeof value !== 'number' || !Number.isInteger(value)) return null;
+  if (value >= TIMESTAMP_MIN && value < TIMESTAMP_MAX) return new Date(value).toLocaleString();
+  if (value * 1000 >= TIMESTAMP_MIN && value * 1000 < TIMESTAMP_MAX) return `${new Date(value * 1000).toLocaleString()} (if seconds)`;
+  return null;
+};